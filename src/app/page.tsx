@@ -1,5 +1,15 @@
 import { MarkOverEditor } from "@/components/markover-editor";
+import { loadContentStyles, loadTailwindTheme } from "@/lib/tailwind-theme";
 
-export default function Home() {
-  return <MarkOverEditor />;
+export default async function Home() {
+  const [tailwindTheme, contentStyles] = await Promise.all([
+    loadTailwindTheme(),
+    loadContentStyles(),
+  ]);
+  return (
+    <MarkOverEditor
+      tailwindTheme={tailwindTheme}
+      contentStyles={contentStyles}
+    />
+  );
 }
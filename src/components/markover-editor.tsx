@@ -1,13 +1,60 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useRef } from "react";
 import { MarkOverParser, sampleMarkOverContent } from "@/lib/markover-parser";
+import type { MarkOverDiagnostic } from "@/lib/markover-diagnostics";
+import type { MarkOverPlugin } from "@/lib/markover-plugins";
+import { useTailwindCss } from "@/hooks/use-tailwind-css";
+import { usePagination } from "@/hooks/use-pagination";
+import {
+  DEFAULT_PAGE_LAYOUT,
+  PAGE_SIZES,
+  type PageLayout,
+  type PageLength,
+  type PageSettings,
+  type PageSizeName,
+} from "@/lib/markover-page";
+import { copyHtml, downloadFile, toFileName } from "@/lib/download";
+import { exportDocx } from "@/lib/markover-docx-export";
+import { exportEmailHtml } from "@/lib/markover-email-export";
+import {
+  exportMarkdown,
+  type MarkdownClassMode,
+} from "@/lib/markover-markdown-export";
+import { exportHtml } from "@/lib/markover-html-export";
+import {
+  importFile,
+  importHtml,
+  isRichHtml,
+  type MarkOverImportResult,
+} from "@/lib/markover-import";
+import { createPointLookup } from "@/lib/markover-ast";
+import { exportPdf } from "@/lib/markover-pdf";
+import { renderPageRunningElements } from "@/lib/markover-running";
+import {
+  numberPages,
+  summarizePageNumbers,
+  type PageNumber,
+} from "@/lib/markover-sections";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Monitor,
   FileText,
@@ -16,36 +63,136 @@ import {
   RotateCcw,
   Download,
   Upload,
+  FileInput,
+  CircleX,
+  TriangleAlert,
+  Info,
+  RectangleHorizontal,
 } from "lucide-react";
 
 export type ViewMode = "web" | "paged";
 
+// Margin choices in the toolbar; Default leaves margins to the document
+const MARGIN_PRESETS: Record<string, PageLength | undefined> = {
+  Default: undefined,
+  None: 0,
+  Narrow: "12.7mm",
+  Normal: "25.4mm",
+  Wide: "38.1mm",
+};
+
+function getMarginPreset(margins: PageSettings["margins"]): string {
+  if (margins === undefined) return "Default";
+  return (
+    Object.keys(MARGIN_PRESETS).find(
+      (preset) => MARGIN_PRESETS[preset] === margins
+    ) ?? "Custom"
+  );
+}
+
 export interface MarkOverEditorProps {
   initialContent?: string;
   className?: string;
+  /** Theme stylesheet for compiling Angle Block classes at runtime */
+  tailwindTheme?: string;
+  /** Base content styles embedded in HTML export, see `loadContentStyles` */
+  contentStyles?: string;
+  /** Parser plugins; keep the array stable between renders */
+  plugins?: MarkOverPlugin[];
+  /** Initial page size, orientation and margins */
+  page?: PageSettings;
 }
 
 export function MarkOverEditor({
   initialContent = sampleMarkOverContent,
   className = "",
+  tailwindTheme,
+  contentStyles,
+  plugins,
+  page,
 }: MarkOverEditorProps) {
   const [content, setContent] = useState(initialContent);
   const [viewMode, setViewMode] = useState<ViewMode>("web");
   const [zoom, setZoom] = useState(100);
+  const [pageSettings, setPageSettings] = useState<PageSettings>(page ?? {});
+  const [exporting, setExporting] = useState(false);
+  // Problems found by the last import or export, until the next edit
+  const [reportedDiagnostics, setReportedDiagnostics] = useState<
+    MarkOverDiagnostic[]
+  >([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Parser with the editor's own Markdown settings
+  const parser = useMemo(() => new MarkOverParser({ plugins }), [plugins]);
 
   // Parse the content
-  const parsedHtml = useMemo(() => {
-    const result = MarkOverParser.parse(content, { mode: viewMode, zoom });
+  const {
+    html: parsedHtml,
+    diagnostics: parseDiagnostics,
+    frontMatter,
+    title,
+    sections,
+    page: documentPage,
+    layout,
+  } = useMemo(() => {
+    const result = parser.parse(content, {
+      mode: viewMode,
+      zoom,
+      page: pageSettings,
+    });
     return result;
-  }, [content, viewMode, zoom]);
+  }, [parser, content, viewMode, zoom, pageSettings]);
+
+  const diagnostics = useMemo(
+    () =>
+      [...reportedDiagnostics, ...parseDiagnostics].sort(
+        (a, b) => a.position.start.offset - b.position.start.offset
+      ),
+    [reportedDiagnostics, parseDiagnostics]
+  );
+
+  // Page geometry shared by pagination and the page cards
+  // Kept stable while its values don't change, so pagination doesn't rerun
+  // on every parse
+  const layoutKey = JSON.stringify(layout);
+  const pageLayout = useMemo<PageLayout>(
+    () => JSON.parse(layoutKey),
+    [layoutKey]
+  );
 
-  // Get page count for paged view
-  const pageCount = useMemo(() => {
-    return MarkOverParser.getPageCount(parsedHtml);
-  }, [parsedHtml]);
+  // Compile CSS for the TailwindCSS classes used in the document
+  // Header and footer templates can use TailwindCSS classes too
+  const styledHtml = useMemo(
+    () =>
+      [
+        parsedHtml,
+        ...sections.flatMap(({ templates }) =>
+          Object.values(templates).flatMap((set) => Object.values(set).flat())
+        ),
+      ].join(""),
+    [parsedHtml, sections]
+  );
+  const tailwindCss = useTailwindCss(tailwindTheme, styledHtml);
+
+  // Measure pages for paged view
+  const pages = usePagination(parsedHtml, {
+    enabled: viewMode === "paged",
+    layout: pageLayout,
+    css: tailwindCss,
+  });
+  const pageCount = pages.length;
+
+  // Page numbers follow the document's sections
+  const pageNumbers = useMemo(
+    () => numberPages(pages, sections),
+    [pages, sections]
+  );
+  const pageRanges = summarizePageNumbers(pageNumbers);
 
   const handleContentChange = (newContent: string) => {
     setContent(newContent);
+    setReportedDiagnostics([]);
   };
 
   const handleZoomChange = (value: number[]) => {
@@ -53,11 +200,189 @@ export function MarkOverEditor({
   };
 
   const resetContent = () => {
-    setContent(sampleMarkOverContent);
+    handleContentChange(sampleMarkOverContent);
   };
 
   const loadSampleContent = () => {
-    setContent(sampleMarkOverContent);
+    handleContentChange(sampleMarkOverContent);
+  };
+
+  // List a failed import or export under Problems, until the next edit
+  const reportFailure = (
+    code: MarkOverDiagnostic["code"],
+    message: string,
+    error: unknown
+  ) => {
+    console.error(message, error);
+    const start = { line: 1, column: 1, offset: 0 };
+    setReportedDiagnostics((reported) => [
+      ...reported.filter((diagnostic) => diagnostic.code !== code),
+      {
+        severity: "error",
+        code,
+        message: `${message} ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        position: { start, end: start },
+      },
+    ]);
+  };
+
+  // Replace the content with an imported .md, .html or .mo file
+  const importSelectedFile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const { source, diagnostics } = importFile(file.name, await file.text());
+      setContent(source);
+      setReportedDiagnostics(diagnostics);
+    } catch (error) {
+      reportFailure("import-failed", `Could not import ${file.name}:`, error);
+    }
+  };
+
+  // Paste rich HTML, e.g. copied from a browser, as MarkOver
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = event.clipboardData.getData("text/html");
+    if (!html || !isRichHtml(html)) return;
+
+    let imported: MarkOverImportResult;
+    try {
+      imported = importHtml(html);
+    } catch (error) {
+      // The browser pastes the plain text instead; report once that edit
+      // has cleared the previous problems
+      requestAnimationFrame(() =>
+        reportFailure(
+          "import-failed",
+          "Pasted HTML could not be converted and was pasted as plain text:",
+          error
+        )
+      );
+      return;
+    }
+    event.preventDefault();
+
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    const source = imported.source.trimEnd();
+    const nextContent =
+      content.substring(0, selectionStart) +
+      source +
+      content.substring(selectionEnd);
+    setContent(nextContent);
+
+    // Import positions are relative to the pasted text
+    const pointAt = createPointLookup(nextContent);
+    setReportedDiagnostics(
+      imported.diagnostics.map((diagnostic) => ({
+        ...diagnostic,
+        position: {
+          start: pointAt(selectionStart + diagnostic.position.start.offset),
+          end: pointAt(selectionStart + diagnostic.position.end.offset),
+        },
+      }))
+    );
+
+    const cursor = selectionStart + source.length;
+    requestAnimationFrame(() =>
+      textareaRef.current?.setSelectionRange(cursor, cursor)
+    );
+  };
+
+  // Run an export; the Export menu is disabled until it finishes
+  const runExport = async (exporter: () => Promise<void>) => {
+    setExporting(true);
+    try {
+      await exporter();
+    } catch (error) {
+      reportFailure("export-failed", "Export failed:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Print the paged document; "Save as PDF" in the dialog writes the file
+  const exportToPdf = () =>
+    runExport(() =>
+      exportPdf(parsedHtml, {
+        layout: pageLayout,
+        sections,
+        title,
+        date: frontMatter.date,
+        css: tailwindCss,
+      })
+    );
+
+  const exportToDocx = () =>
+    runExport(async () => {
+      const docx = await exportDocx(parsedHtml, {
+        layout: pageLayout,
+        sections,
+        title,
+        date: frontMatter.date,
+        css: tailwindCss,
+      });
+      downloadFile(docx, toFileName(title, "docx"));
+    });
+
+  const exportToHtml = (inlineImages: boolean) =>
+    runExport(async () => {
+      const html = await exportHtml(parsedHtml, {
+        title,
+        tailwindTheme,
+        contentStyles,
+        inlineImages,
+      });
+      downloadFile(html, toFileName(title, "html"), "text/html");
+    });
+
+  const exportToMarkdown = (classes: MarkdownClassMode) =>
+    runExport(async () => {
+      const { markdown, diagnostics } = exportMarkdown(parser, content, {
+        classes,
+      });
+      downloadFile(markdown, toFileName(title, "md"), "text/markdown");
+      // Parse problems are already listed
+      setReportedDiagnostics(
+        diagnostics.filter(
+          (diagnostic) =>
+            !parseDiagnostics.some(
+              (problem) =>
+                problem.code === diagnostic.code &&
+                problem.position.start.offset ===
+                  diagnostic.position.start.offset
+            )
+        )
+      );
+    });
+
+  // Email HTML is downloaded, or copied to paste into an email tool
+  const exportToEmail = (copy: boolean) =>
+    runExport(async () => {
+      const html = await exportEmailHtml(parsedHtml, {
+        title,
+        css: tailwindCss,
+      });
+      if (copy) {
+        await copyHtml(html);
+      } else {
+        downloadFile(html, toFileName(title, "email.html"), "text/html");
+      }
+    });
+
+  // Select the source range of a diagnostic in the editor
+  const revealDiagnostic = (diagnostic: MarkOverDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(
+      diagnostic.position.start.offset,
+      diagnostic.position.end.offset
+    );
   };
 
   return (
@@ -88,6 +413,93 @@ export function MarkOverEditor({
         </div>
 
         <div className="flex items-center gap-4">
+          {viewMode === "paged" && (
+            <>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={
+                    typeof documentPage.size === "object"
+                      ? "custom"
+                      : (documentPage.size ?? "A4")
+                  }
+                  onValueChange={(size) =>
+                    setPageSettings({
+                      ...pageSettings,
+                      size: size as PageSizeName,
+                    })
+                  }
+                >
+                  <SelectTrigger size="sm" className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(PAGE_SIZES).map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                    {typeof documentPage.size === "object" && (
+                      <SelectItem value="custom" disabled>
+                        Custom
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setPageSettings({
+                      ...pageSettings,
+                      orientation:
+                        documentPage.orientation === "landscape"
+                          ? "portrait"
+                          : "landscape",
+                    })
+                  }
+                >
+                  <RectangleHorizontal
+                    className={`w-4 h-4 mr-2 ${
+                      documentPage.orientation === "landscape"
+                        ? ""
+                        : "rotate-90"
+                    }`}
+                  />
+                  {documentPage.orientation === "landscape"
+                    ? "Landscape"
+                    : "Portrait"}
+                </Button>
+                <Select
+                  value={getMarginPreset(documentPage.margins)}
+                  onValueChange={(preset) =>
+                    setPageSettings({
+                      ...pageSettings,
+                      margins: MARGIN_PRESETS[preset],
+                    })
+                  }
+                >
+                  <SelectTrigger size="sm" className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(MARGIN_PRESETS).map((preset) => (
+                      <SelectItem key={preset} value={preset}>
+                        {preset}
+                      </SelectItem>
+                    ))}
+                    {getMarginPreset(documentPage.margins) === "Custom" && (
+                      <SelectItem value="Custom" disabled>
+                        Custom
+                      </SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Separator orientation="vertical" className="h-6" />
+            </>
+          )}
+
           <div className="flex items-center gap-2">
             <ZoomOut className="w-4 h-4" />
             <Slider
@@ -113,10 +525,56 @@ export function MarkOverEditor({
               <Upload className="w-4 h-4 mr-2" />
               Sample
             </Button>
-            <Button variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Export
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileInput className="w-4 h-4 mr-2" />
+              Import
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".md,.markdown,.mo,.html,.htm"
+              onChange={importSelectedFile}
+              className="hidden"
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={exporting}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={exportToPdf}>PDF</DropdownMenuItem>
+                <DropdownMenuItem onSelect={exportToDocx}>
+                  Word (.docx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToHtml(false)}>
+                  HTML
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToHtml(true)}>
+                  HTML with embedded images
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToEmail(false)}>
+                  Email HTML
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToEmail(true)}>
+                  Copy for email
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToMarkdown("drop")}>
+                  Markdown
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToMarkdown("comment")}>
+                  Markdown, classes as comments
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => exportToMarkdown("html")}>
+                  Markdown, classes as HTML
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
@@ -132,16 +590,31 @@ export function MarkOverEditor({
           </div>
           <div className="flex-1 p-4">
             <ScrollArea className="h-screen">
-              <Textarea
-                value={content}
-                onChange={(e) => handleContentChange(e.target.value)}
-                placeholder="Write your MarkOver content here..."
-                className="w-full min-h-full resize-none border-0 focus-visible:ring-0 font-mono text-sm"
-              />
+              <div className="flex">
+                <EditorGutter
+                  lineCount={content.split("\n").length}
+                  diagnostics={diagnostics}
+                />
+                <Textarea
+                  ref={textareaRef}
+                  value={content}
+                  onChange={(e) => handleContentChange(e.target.value)}
+                  onPaste={handlePaste}
+                  placeholder="Write your MarkOver content here..."
+                  wrap="off"
+                  className="w-full min-h-full resize-none border-0 focus-visible:ring-0 font-mono text-sm"
+                />
+              </div>
               <div className="h-20" />
               <div className="h-20" />
             </ScrollArea>
           </div>
+          {diagnostics.length > 0 && (
+            <ProblemsPanel
+              diagnostics={diagnostics}
+              onSelect={revealDiagnostic}
+            />
+          )}
         </div>
 
         {/* Right Panel - Preview */}
@@ -153,15 +626,30 @@ export function MarkOverEditor({
             {viewMode === "paged" && (
               <span className="text-xs text-muted-foreground">
                 {pageCount} page{pageCount !== 1 ? "s" : ""}
+                {/* Only worth showing when numbering isn't simply 1 to n */}
+                {pageRanges !== (pageCount > 1 ? `1–${pageCount}` : "1") &&
+                  ` (${pageRanges})`}
               </span>
             )}
           </div>
 
           <div className="flex-1 overflow-auto p-4">
+            <style
+              dangerouslySetInnerHTML={{
+                __html: tailwindCss.replace(/<\/style/gi, "\\3c /style"),
+              }}
+            />
             {viewMode === "web" ? (
               <WebView html={parsedHtml} zoom={zoom} />
             ) : (
-              <PagedView html={parsedHtml} zoom={zoom} pageCount={pageCount} />
+              <PagedView
+                pages={pages}
+                zoom={zoom}
+                layout={pageLayout}
+                numbers={pageNumbers}
+                title={title}
+                date={frontMatter.date}
+              />
             )}
           </div>
         </div>
@@ -170,6 +658,102 @@ export function MarkOverEditor({
   );
 }
 
+const severityIcons = {
+  error: CircleX,
+  warning: TriangleAlert,
+  info: Info,
+};
+
+const severityRanks = { error: 2, warning: 1, info: 0 };
+
+const severityColors = {
+  error: "text-destructive",
+  warning: "text-amber-500",
+  info: "text-blue-500",
+};
+
+// Line numbers with markers for lines that have diagnostics
+function EditorGutter({
+  lineCount,
+  diagnostics,
+}: {
+  lineCount: number;
+  diagnostics: MarkOverDiagnostic[];
+}) {
+  // Most severe diagnostic per line
+  const markers = new Map<number, MarkOverDiagnostic>();
+  for (const diagnostic of diagnostics) {
+    const line = diagnostic.position.start.line;
+    const existing = markers.get(line);
+    if (
+      !existing ||
+      severityRanks[diagnostic.severity] > severityRanks[existing.severity]
+    ) {
+      markers.set(line, diagnostic);
+    }
+  }
+
+  return (
+    <div className="py-2 pr-2 select-none text-right font-mono text-sm text-muted-foreground">
+      {Array.from({ length: lineCount }, (_, index) => {
+        const marker = markers.get(index + 1);
+        const Icon = marker && severityIcons[marker.severity];
+        return (
+          <div
+            key={index}
+            className="flex h-5 items-center justify-end gap-1"
+            title={marker?.message}
+          >
+            {Icon && (
+              <Icon className={`w-3 h-3 ${severityColors[marker.severity]}`} />
+            )}
+            <span>{index + 1}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Problems list below the editor
+function ProblemsPanel({
+  diagnostics,
+  onSelect,
+}: {
+  diagnostics: MarkOverDiagnostic[];
+  onSelect: (diagnostic: MarkOverDiagnostic) => void;
+}) {
+  return (
+    <div className="border-t max-h-40 overflow-auto">
+      <div className="px-4 py-2 text-xs font-medium text-muted-foreground bg-muted/50">
+        Problems ({diagnostics.length})
+      </div>
+      {diagnostics.map((diagnostic, index) => {
+        const Icon = severityIcons[diagnostic.severity];
+        const { line, column } = diagnostic.position.start;
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSelect(diagnostic)}
+            className="flex w-full items-start gap-2 px-4 py-1 text-left text-sm hover:bg-muted"
+          >
+            <Icon
+              className={`w-4 h-4 mt-0.5 shrink-0 ${
+                severityColors[diagnostic.severity]
+              }`}
+            />
+            <span className="flex-1">{diagnostic.message}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              Ln {line}, Col {column}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 // Web View Component
 function WebView({ html, zoom }: { html: string; zoom: number }) {
   return (
@@ -191,15 +775,25 @@ function WebView({ html, zoom }: { html: string; zoom: number }) {
 
 // Paged View Component
 function PagedView({
-  html,
+  pages,
   zoom,
-  pageCount,
+  layout = DEFAULT_PAGE_LAYOUT,
+  numbers,
+  title = "",
+  date,
 }: {
-  html: string;
+  pages: string[];
   zoom: number;
-  pageCount: number;
+  layout?: PageLayout;
+  numbers: PageNumber[];
+  title?: string;
+  date?: string;
 }) {
-  const pages = MarkOverParser.splitIntoPages(html);
+  const runningElements = useMemo(
+    () => renderPageRunningElements(pages, numbers, { title, date }),
+    [pages, numbers, title, date]
+  );
+  const { margins } = layout;
 
   return (
     <div
@@ -210,27 +804,54 @@ function PagedView({
         width: `${100 / (zoom / 100)}%`,
       }}
     >
-      {pages.map((pageHtml, index) => (
-        <Card key={index} className="shadow-lg">
-          <CardContent
-            className="p-8"
-            style={{
-              width: "794px",
-              minHeight: "1123px",
-              maxHeight: "1123px",
-              overflow: "hidden",
-            }}
+      {pages.map((pageHtml, index) => {
+        const { header, footer } = runningElements[index];
+        return (
+          <Card
+            key={index}
+            className="relative gap-0 py-0 shadow-lg"
+            style={{ width: `${layout.width}px` }}
           >
-            <div
-              className="markover-content h-full"
-              dangerouslySetInnerHTML={{ __html: pageHtml }}
-            />
-          </CardContent>
-          <div className="text-center py-2 text-xs text-muted-foreground border-t">
-            Page {index + 1} of {pageCount}
-          </div>
-        </Card>
-      ))}
+            {/* Running header and footer sit in the top and bottom margins */}
+            {header && (
+              <div
+                className="absolute inset-x-0 top-0"
+                style={{
+                  height: `${margins.top}px`,
+                  padding: `0 ${margins.right}px 0 ${margins.left}px`,
+                }}
+                dangerouslySetInnerHTML={{
+                  __html: header,
+                }}
+              />
+            )}
+            {/* Pages only grow beyond their height for a block taller than a page */}
+            <CardContent
+              style={{
+                minHeight: `${layout.height}px`,
+                padding: `${margins.top}px ${margins.right}px ${margins.bottom}px ${margins.left}px`,
+              }}
+            >
+              <div
+                className="markover-content h-full"
+                dangerouslySetInnerHTML={{ __html: pageHtml }}
+              />
+            </CardContent>
+            {footer && (
+              <div
+                className="absolute inset-x-0 bottom-0"
+                style={{
+                  height: `${margins.bottom}px`,
+                  padding: `0 ${margins.right}px 0 ${margins.left}px`,
+                }}
+                dangerouslySetInnerHTML={{
+                  __html: footer,
+                }}
+              />
+            )}
+          </Card>
+        );
+      })}
     </div>
   );
 }
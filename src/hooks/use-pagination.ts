@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { paginateHtml } from "@/lib/markover-paginator";
+import { DEFAULT_PAGE_LAYOUT, type PageLayout } from "@/lib/markover-page";
+
+// Pause after the last change before measuring, so typing doesn't start
+// a full layout pass per keystroke
+const PAGINATION_DELAY = 300;
+
+/**
+ * Split rendered HTML into measured pages
+ * Pagination reruns when the HTML, the layout or the document's CSS
+ * changes, once it has stopped changing for a moment, and is skipped while
+ * `enabled` is false. Results of a run that was overtaken are dropped.
+ * Until the first measurement finishes the whole document is returned as
+ * one page
+ */
+export function usePagination(
+  html: string,
+  {
+    enabled = true,
+    layout = DEFAULT_PAGE_LAYOUT,
+    css = "",
+  }: { enabled?: boolean; layout?: PageLayout; css?: string } = {}
+) {
+  const [pages, setPages] = useState<string[]>([html]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      paginateHtml(html, layout)
+        .then((nextPages) => {
+          if (!cancelled) setPages(nextPages);
+        })
+        .catch((error) => {
+          console.error("Failed to paginate MarkOver content:", error);
+        });
+    }, PAGINATION_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [html, layout, css, enabled]);
+
+  return pages;
+}
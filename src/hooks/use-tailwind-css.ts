@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import {
+  extractClassCandidates,
+  getTailwindCompiler,
+} from "@/lib/tailwind-runtime";
+
+/**
+ * Compile TailwindCSS for the classes used in rendered HTML
+ * Returns an empty string until the compiler is ready or when no theme is given
+ */
+export function useTailwindCss(theme: string | undefined, html: string) {
+  const [css, setCss] = useState("");
+
+  useEffect(() => {
+    if (!theme) return;
+
+    let cancelled = false;
+    getTailwindCompiler(theme)
+      .then((compiler) => {
+        const nextCss = compiler.build(extractClassCandidates(html));
+        if (!cancelled) setCss(nextCss);
+      })
+      .catch((error) => {
+        console.error("Failed to compile TailwindCSS classes:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [theme, html]);
+
+  return css;
+}
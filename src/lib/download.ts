@@ -0,0 +1,50 @@
+/**
+ * Save generated content as a file through the browser's download
+ */
+export function downloadFile(
+  content: string | Blob,
+  fileName: string,
+  type = "text/plain"
+): void {
+  const blob =
+    content instanceof Blob
+      ? content
+      : new Blob([content], { type: `${type};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * File name for an exported document, based on its title
+ * Whitespace and characters file systems reject become dashes
+ */
+export function toFileName(title: string, extension: string): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[\s\\/:*?"<>|.#%&{}$!'@+`=]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${base || "document"}.${extension}`;
+}
+
+/**
+ * Copy HTML to the clipboard as rich text, with its text as the plain
+ * text fallback
+ */
+export async function copyHtml(html: string): Promise<void> {
+  const text =
+    new DOMParser().parseFromString(html, "text/html").body.textContent ?? "";
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      "text/html": new Blob([html], { type: "text/html" }),
+      "text/plain": new Blob([text.trim()], { type: "text/plain" }),
+    }),
+  ]);
+}
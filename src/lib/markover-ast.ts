@@ -0,0 +1,168 @@
+/**
+ * MarkOver AST
+ *
+ * Typed tree produced by `MarkOverParser.parseToAst`. Every node carries the
+ * source range it was parsed from so tooling (linting, outline, scroll sync)
+ * can map rendered output back to the `.mo` source.
+ */
+
+/**
+ * A point in the source text. `line` and `column` are 1-based,
+ * `offset` is the 0-based character index.
+ */
+export interface SourcePoint {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/**
+ * Range in the source text. `end` is exclusive.
+ */
+export interface SourcePosition {
+  start: SourcePoint;
+  end: SourcePoint;
+}
+
+/**
+ * Document root
+ */
+export interface MarkOverRoot {
+  type: "root";
+  children: MarkOverNode[];
+  frontMatter: FrontMatterNode | null;
+  position: SourcePosition;
+}
+
+/**
+ * `key: value` settings between --- lines at the very start of a document
+ * Keys are lowercased; quoted values have their quotes removed
+ */
+export interface FrontMatterNode {
+  type: "frontMatter";
+  values: Record<string, string>;
+  position: SourcePosition;
+}
+
+/**
+ * Angle Block: <>'classes' {#id tag=section data-x=y}...content...</>
+ * `tag` defaults to "div"; `attributes` holds the validated id, style,
+ * data-* and aria-* attributes from the optional attribute list
+ */
+export interface AngleBlockNode {
+  type: "angleBlock";
+  classes: string[];
+  tag: string;
+  attributes: Record<string, string>;
+  children: MarkOverNode[];
+  position: SourcePosition;
+}
+
+/**
+ * Legacy Flex Block properties (`:::flex justify=center gap=8`)
+ */
+export interface FlexBlockProperties {
+  justify?: "start" | "end" | "center" | "between" | "around" | "evenly";
+  align?: "start" | "end" | "center" | "stretch" | "baseline";
+  gap?: number;
+  direction?: "row" | "column" | "row-reverse" | "column-reverse";
+  wrap?: "nowrap" | "wrap" | "wrap-reverse";
+}
+
+/**
+ * Legacy Flex Block: :::flex key=value ... content ... :::
+ */
+export interface FlexBlockNode {
+  type: "flexBlock";
+  properties: FlexBlockProperties;
+  children: MarkOverNode[];
+  position: SourcePosition;
+}
+
+/**
+ * Block type registered by a plugin:
+ *   :::name {key=value} ... content ... :::   (fenced)
+ *   <>name {key=value} ... content ... </>    (angle)
+ * Leaf block types are a single opener without content or closer
+ */
+export interface CustomBlockNode {
+  type: "customBlock";
+  name: string;
+  syntax: "fenced" | "angle";
+  properties: Record<string, string>;
+  children: MarkOverNode[];
+  position: SourcePosition;
+}
+
+/**
+ * Run of plain Markdown source between blocks
+ */
+export interface MarkdownNode {
+  type: "markdown";
+  value: string;
+  position: SourcePosition;
+}
+
+/**
+ * Fenced code block. `raw` is the full source including the fences,
+ * `value` is the code between them.
+ */
+export interface CodeNode {
+  type: "code";
+  lang: string;
+  value: string;
+  raw: string;
+  position: SourcePosition;
+}
+
+export type MarkOverNode =
+  AngleBlockNode | FlexBlockNode | CustomBlockNode | MarkdownNode | CodeNode;
+
+export type MarkOverParentNode =
+  MarkOverRoot | AngleBlockNode | FlexBlockNode | CustomBlockNode;
+
+/**
+ * Maps character offsets to line/column positions
+ */
+export function createPointLookup(
+  text: string
+): (offset: number) => SourcePoint {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  return (offset: number): SourcePoint => {
+    // Binary search for the last line starting at or before offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1, offset };
+  };
+}
+
+/**
+ * Visit every node in the tree depth-first, parents before children
+ */
+export function walkAst(
+  node: MarkOverRoot | MarkOverNode,
+  visit: (
+    node: MarkOverRoot | MarkOverNode,
+    parent: MarkOverParentNode | null
+  ) => void,
+  parent: MarkOverParentNode | null = null
+): void {
+  visit(node, parent);
+  if ("children" in node) {
+    for (const child of node.children) {
+      walkAst(child, visit, node);
+    }
+  }
+}
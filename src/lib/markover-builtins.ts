@@ -0,0 +1,50 @@
+/**
+ * Block types that ship with MarkOver
+ *
+ * They are written as plugins and registered on every parser, so they
+ * follow the same rules as third-party block types.
+ */
+
+import type { MarkOverPlugin } from "./markover-plugins";
+import { parseNewPage } from "./markover-sections";
+
+/**
+ * Built-in block types:
+ * - `:::page-break` forces a new page in the paged view and in print
+ * - `:::no-header` / `:::no-footer` hide the running header or footer on
+ *   the page they end up on
+ * - `:::section {...}` starts a section with its own page numbering and
+ *   templates, resolved by the parser; `new-page` starts it on a new page
+ */
+export const markoverPlugin: MarkOverPlugin = {
+  name: "markover",
+  blocks: [
+    {
+      name: "page-break",
+      leaf: true,
+      render: () => '<div data-page-break style="break-after: page"></div>',
+    },
+    {
+      name: "no-header",
+      leaf: true,
+      render: () => "<div data-no-header></div>",
+    },
+    {
+      name: "no-footer",
+      leaf: true,
+      render: () => "<div data-no-footer></div>",
+    },
+    {
+      name: "section",
+      leaf: true,
+      render: (node) =>
+        `<div data-section="${node.position.start.offset}"${
+          parseNewPage(node.properties["new-page"])
+            ? ' style="break-before: page"'
+            : ""
+        }></div>`,
+    },
+  ],
+};
+
+export const builtinPlugins: MarkOverPlugin[] = [markoverPlugin];
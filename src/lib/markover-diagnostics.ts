@@ -0,0 +1,46 @@
+import type { SourcePosition } from "./markover-ast";
+
+export type MarkOverDiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * - `unclosed-block`: a block is never closed and runs to the end of the document
+ * - `stray-closer`: a closing tag without an open block, removed from output
+ * - `misnested-closer`: a `</>` whose Angle Block still has a `:::` block
+ *   open inside it, removed from output
+ * - `empty-class-list`: an Angle Block with no classes
+ * - `unterminated-class-list`: an Angle Block opener whose quoted class list
+ *   never ends, kept as text
+ * - `invalid-property`: a block property that is unknown or has a bad value
+ * - `duplicate-id`: an id used by more than one block
+ * - `dropped-content`: source that the parser removed from the output
+ * - `unsafe-html`: HTML removed by the sanitizer
+ * - `unsupported-html`: imported content with no MarkOver equivalent,
+ *   unwrapped, rewritten or kept as raw HTML
+ * - `export-failed`, `import-failed`: the editor could not export the
+ *   document or import a file or pasted HTML; reported at its start
+ * - `<plugin>/<code>`: reported by a plugin, prefixed with its name
+ */
+export type MarkOverDiagnosticCode =
+  | "unclosed-block"
+  | "stray-closer"
+  | "misnested-closer"
+  | "empty-class-list"
+  | "unterminated-class-list"
+  | "invalid-property"
+  | "duplicate-id"
+  | "dropped-content"
+  | "unsafe-html"
+  | "unsupported-html"
+  | "export-failed"
+  | "import-failed"
+  | `${string}/${string}`;
+
+/**
+ * Problem found while parsing a MarkOver document
+ */
+export interface MarkOverDiagnostic {
+  severity: MarkOverDiagnosticSeverity;
+  code: MarkOverDiagnosticCode;
+  message: string;
+  position: SourcePosition;
+}
@@ -0,0 +1,1282 @@
+/**
+ * DOCX export
+ *
+ * Builds a Word document with the `docx` package, in the browser and
+ * without a network connection. Like email export, the document is laid
+ * out off screen with the app's styles, at the page's content width, and
+ * computed styles become Word formatting. Headings, lists, tables, code and
+ * images map to native Word structures; flex and grid layouts become
+ * borderless tables, boxes with a background, border or padding shaded
+ * single-cell tables, and CSS columns section columns. Every document
+ * section becomes a Word section with the page setup, page numbering and
+ * running header and footer of the paged view. Browser only.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  LineRuleType,
+  NumberFormat,
+  Packer,
+  PageBreak,
+  PageNumber,
+  PageOrientation,
+  Paragraph,
+  SectionType,
+  ShadingType,
+  Tab,
+  Table,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TabStopType,
+  TextRun,
+  VerticalAlignTable,
+  WidthType,
+  type IBorderOptions,
+  type ILevelsOptions,
+  type IParagraphOptions,
+  type IRunOptions,
+  type ISectionOptions,
+  type ParagraphChild,
+} from "docx";
+import {
+  measureLayout,
+  toHexColor,
+  type Layout,
+} from "./markover-email-export";
+import { DEFAULT_PAGE_LAYOUT, type PageLayout } from "./markover-page";
+import { waitForResources } from "./markover-paginator";
+import {
+  renderRunningElement,
+  type PageTemplates,
+  type RunningTemplate,
+  type RunningTemplateSet,
+} from "./markover-running";
+import {
+  DEFAULT_DOCUMENT_SECTION,
+  type DocumentSection,
+  type PageNumbering,
+} from "./markover-sections";
+
+export interface DocxExportOptions {
+  layout?: PageLayout;
+  sections?: DocumentSection[];
+  /** Document title, used for `{title}` and the document properties */
+  title?: string;
+  date?: string;
+  /** Compiled TailwindCSS for the classes used in the document */
+  css?: string;
+}
+
+// Word measures in twips (1/20 pt), font sizes in half points and borders
+// in eighths of a point; a CSS pixel is 3/4 pt
+const twips = (pixels: number) => Math.round(pixels * 15);
+const halfPoints = (pixels: number) => Math.round(pixels * 1.5);
+const eighthPoints = (pixels: number) => Math.max(2, Math.round(pixels * 6));
+// Computed length in pixels; 0 when unset
+const toPixels = (value: string) => parseFloat(value) || 0;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const NUMBER_FORMATS: Record<
+  PageNumbering,
+  (typeof NumberFormat)[keyof typeof NumberFormat]
+> = {
+  arabic: NumberFormat.DECIMAL,
+  "lower-roman": NumberFormat.LOWER_ROMAN,
+  "upper-roman": NumberFormat.UPPER_ROMAN,
+  "lower-alpha": NumberFormat.LOWER_LETTER,
+  "upper-alpha": NumberFormat.UPPER_LETTER,
+};
+
+// List markers by `list-style-type`
+const LIST_FORMATS: Record<
+  string,
+  [(typeof LevelFormat)[keyof typeof LevelFormat], string]
+> = {
+  disc: [LevelFormat.BULLET, "•"],
+  circle: [LevelFormat.BULLET, "◦"],
+  square: [LevelFormat.BULLET, "▪"],
+  decimal: [LevelFormat.DECIMAL, "."],
+  "lower-alpha": [LevelFormat.LOWER_LETTER, "."],
+  "lower-latin": [LevelFormat.LOWER_LETTER, "."],
+  "upper-alpha": [LevelFormat.UPPER_LETTER, "."],
+  "upper-latin": [LevelFormat.UPPER_LETTER, "."],
+  "lower-roman": [LevelFormat.LOWER_ROMAN, "."],
+  "upper-roman": [LevelFormat.UPPER_ROMAN, "."],
+  none: [LevelFormat.NONE, ""],
+};
+
+// Indent per list level, in twips
+const LIST_INDENT = 360;
+
+const IMAGE_TYPES: Record<string, "png" | "jpg" | "gif" | "bmp"> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+};
+
+const NO_BORDER: IBorderOptions = {
+  style: BorderStyle.NONE,
+  size: 0,
+  color: "auto",
+};
+
+const NO_TABLE_BORDERS = {
+  top: NO_BORDER,
+  right: NO_BORDER,
+  bottom: NO_BORDER,
+  left: NO_BORDER,
+  insideHorizontal: NO_BORDER,
+  insideVertical: NO_BORDER,
+};
+
+const VERTICAL_ALIGNS = {
+  top: VerticalAlignTable.TOP,
+  middle: VerticalAlignTable.CENTER,
+  bottom: VerticalAlignTable.BOTTOM,
+};
+
+const BOX_SIDES = ["top", "right", "bottom", "left"] as const;
+
+// What a table cell or section holds
+type Block = Paragraph | Table;
+
+interface DocxImage {
+  data: ArrayBuffer;
+  type: "png" | "jpg" | "gif" | "bmp";
+}
+
+interface DocxContext {
+  /** Image data by URL, loaded before conversion */
+  images: Map<string, DocxImage | null>;
+  /** Numbering definitions, one per list */
+  lists: { reference: string; levels: ILevelsOptions[] }[];
+}
+
+/**
+ * Indentation and left border of blocks inside a quote
+ */
+interface BlockFrame {
+  indent: number;
+  border?: IBorderOptions;
+}
+
+const NO_FRAME: BlockFrame = { indent: 0 };
+
+/**
+ * Formatting that applies to a whole inline subtree rather than being
+ * inherited through computed styles
+ */
+interface InlineState {
+  underline: boolean;
+  strike: boolean;
+  /** Background of an inline element, as a hex colour */
+  shading?: string;
+  link?: string;
+  /** Turn `{page}` and `{pages}` into page number fields */
+  fields: boolean;
+}
+
+const INLINE_STATE: InlineState = {
+  underline: false,
+  strike: false,
+  fields: false,
+};
+
+interface InlineSegment {
+  text?: string;
+  field?: (typeof PageNumber)[keyof typeof PageNumber];
+  lineBreak?: boolean;
+  image?: DocxImage & { width: number; height: number; alt: string };
+  /** Whitespace collapses, as in normal flow */
+  collapsible: boolean;
+  style: IRunOptions;
+  link?: string;
+}
+
+/**
+ * Part of a document section with the same Word section settings
+ * A block with CSS columns splits its section into three parts
+ */
+interface SectionPart {
+  section: DocumentSection;
+  /** Whether the document section starts here */
+  start: boolean;
+  newPage: boolean;
+  columns?: { count: number; space: number };
+  children: Block[];
+  /** First h1/h2, for `{section}` */
+  heading: string;
+}
+
+/**
+ * Render rendered MarkOver HTML as a Word document
+ * The document's classes must be styled in the current page, by the
+ * preview or by passing `css`
+ */
+export async function exportDocx(
+  html: string,
+  {
+    layout = DEFAULT_PAGE_LAYOUT,
+    sections = [DEFAULT_DOCUMENT_SECTION],
+    title = "",
+    date = new Date().toLocaleDateString(),
+    css = "",
+  }: DocxExportOptions = {}
+): Promise<Blob> {
+  const { margins } = layout;
+  const contentWidth = layout.width - margins.left - margins.right;
+
+  const style = document.createElement("style");
+  style.textContent = css;
+  const host = document.createElement("div");
+  host.className = "markover-content";
+  host.setAttribute("aria-hidden", "true");
+  Object.assign(host.style, {
+    position: "absolute",
+    top: "0",
+    left: "-10000px",
+    width: `${contentWidth}px`,
+    pointerEvents: "none",
+  });
+  host.innerHTML = html;
+  document.head.appendChild(style);
+  document.body.appendChild(host);
+
+  try {
+    await waitForResources(host);
+    const context: DocxContext = {
+      images: await loadImages(host),
+      lists: [],
+    };
+    const parts = convertSections(host, sections, context);
+
+    const landscape = layout.width > layout.height;
+    const page = {
+      // docx swaps the dimensions of landscape pages itself
+      size: {
+        width: twips(Math.min(layout.width, layout.height)),
+        height: twips(Math.max(layout.width, layout.height)),
+        orientation: landscape
+          ? PageOrientation.LANDSCAPE
+          : PageOrientation.PORTRAIT,
+      },
+      margin: {
+        top: twips(margins.top),
+        right: twips(margins.right),
+        bottom: twips(margins.bottom),
+        left: twips(margins.left),
+        header: twips(margins.top / 3),
+        footer: twips(margins.bottom / 3),
+      },
+    };
+
+    let heading = "";
+    const wordSections = parts.map((part, index): ISectionOptions => {
+      heading = part.heading || heading;
+      const { templates } = part.section;
+      const render = (kind: keyof PageTemplates) =>
+        renderRunningElements(kind, templates[kind], {
+          host,
+          context,
+          contentWidth,
+          variables: { title, section: heading, date },
+        });
+      const header = render("header");
+      const footer = render("footer");
+
+      return {
+        properties: {
+          type:
+            index === 0
+              ? undefined
+              : part.start && part.newPage
+                ? SectionType.NEXT_PAGE
+                : SectionType.CONTINUOUS,
+          page: {
+            ...page,
+            pageNumbers: {
+              formatType: NUMBER_FORMATS[part.section.numbering],
+              start: part.start ? part.section.start : undefined,
+            },
+          },
+          titlePage:
+            part.start &&
+            (templates.header.first !== undefined ||
+              templates.footer.first !== undefined),
+          column: part.columns,
+        },
+        headers: {
+          default: new Header({ children: header.default }),
+          first: new Header({ children: header.first }),
+          even: new Header({ children: header.even }),
+        },
+        footers: {
+          default: new Footer({ children: footer.default }),
+          first: new Footer({ children: footer.first }),
+          even: new Footer({ children: footer.even }),
+        },
+        children: part.children.length ? part.children : [new Paragraph({})],
+      };
+    });
+
+    const hostStyle = getComputedStyle(host);
+    const wordDocument = new Document({
+      title,
+      evenAndOddHeaderAndFooters: sections.some(({ templates }) =>
+        [templates.header, templates.footer].some(
+          (set) => set.odd !== undefined || set.even !== undefined
+        )
+      ),
+      styles: {
+        default: {
+          document: {
+            run: {
+              font: toWordFont(hostStyle.fontFamily) ?? "Arial",
+              size: halfPoints(toPixels(hostStyle.fontSize)) || undefined,
+              color: toWordColor(hostStyle.color),
+            },
+          },
+        },
+      },
+      numbering: { config: context.lists },
+      sections: wordSections,
+    });
+    return await Packer.toBlob(wordDocument);
+  } finally {
+    host.remove();
+    style.remove();
+  }
+}
+
+/**
+ * Split the document at its section markers and at blocks with CSS columns
+ */
+function convertSections(
+  host: HTMLElement,
+  sections: DocumentSection[],
+  context: DocxContext
+): SectionPart[] {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  let part: SectionPart = {
+    section: sections[0] ?? DEFAULT_DOCUMENT_SECTION,
+    start: true,
+    newPage: true,
+    children: [],
+    heading: "",
+  };
+  const parts = [part];
+  const open = (options: Omit<SectionPart, "children" | "heading">) => {
+    part = { ...options, children: [], heading: "" };
+    parts.push(part);
+  };
+
+  let pending: Node[] = [];
+  const flush = () => {
+    part.children.push(...convertNodes(pending, host, context, NO_FRAME));
+    part.heading ||= findHeading(pending);
+    pending = [];
+  };
+
+  for (const node of Array.from(host.childNodes)) {
+    if (!(node instanceof HTMLElement)) {
+      pending.push(node);
+      continue;
+    }
+
+    const sectionId = node.getAttribute("data-section");
+    const columnCount = parseInt(getComputedStyle(node).columnCount);
+    if (sectionId !== null) {
+      flush();
+      open({
+        section: byId.get(Number(sectionId)) ?? part.section,
+        start: true,
+        newPage: node.style.breakBefore === "page",
+      });
+    } else if (columnCount > 1) {
+      flush();
+      const { section } = part;
+      const gap = toPixels(getComputedStyle(node).columnGap);
+      open({
+        section,
+        start: false,
+        newPage: false,
+        columns: { count: columnCount, space: twips(gap || 16) },
+      });
+      pending = Array.from(node.childNodes);
+      flush();
+      open({ section, start: false, newPage: false });
+    } else {
+      pending.push(node);
+    }
+  }
+  flush();
+
+  // Column blocks at the end of a section leave empty parts behind
+  return parts.filter(
+    (candidate, index) =>
+      candidate.start || candidate.children.length || index === 0
+  );
+}
+
+function findHeading(nodes: Node[]): string {
+  for (const node of nodes) {
+    if (!(node instanceof HTMLElement)) continue;
+    const heading = node.matches("h1, h2")
+      ? node
+      : node.querySelector("h1, h2");
+    if (heading) return heading.textContent?.trim() ?? "";
+  }
+  return "";
+}
+
+/**
+ * Convert sibling nodes to Word blocks
+ * Consecutive inline nodes form a paragraph styled by `parent`
+ */
+function convertNodes(
+  nodes: Node[],
+  parent: HTMLElement,
+  context: DocxContext,
+  frame: BlockFrame
+): Block[] {
+  const children: Block[] = [];
+  let inline: Node[] = [];
+  const flush = () => {
+    const runs = convertInline(inline, context, INLINE_STATE);
+    if (runs.length) {
+      children.push(createParagraph(parent, runs, frame, { own: false }));
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush();
+      children.push(...convertBlock(node, context, frame));
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+  return separateTables(children);
+}
+
+function isBlock(node: Node): node is HTMLElement {
+  if (!(node instanceof HTMLElement)) return false;
+  const { display } = getComputedStyle(node);
+  return (
+    !display.startsWith("inline") &&
+    display !== "contents" &&
+    display !== "none"
+  );
+}
+
+function convertBlock(
+  element: HTMLElement,
+  context: DocxContext,
+  frame: BlockFrame
+): Block[] {
+  if (element.matches("[data-page-break]")) {
+    return [new Paragraph({ children: [new PageBreak()] })];
+  }
+  // Other directive markers only matter to pagination
+  if (element.matches("[data-no-header], [data-no-footer], [data-section]")) {
+    return [];
+  }
+
+  const computed = getComputedStyle(element);
+  const children = () => Array.from(element.childNodes);
+  const tag = element.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    return [
+      createParagraph(
+        element,
+        convertInline(children(), context, INLINE_STATE),
+        frame,
+        { heading: HEADING_LEVELS[Number(tag[1]) - 1] }
+      ),
+    ];
+  }
+  switch (tag) {
+    case "P":
+      return [
+        createParagraph(
+          element,
+          convertInline(children(), context, INLINE_STATE),
+          frame
+        ),
+      ];
+    case "PRE": {
+      const shading = toWordColor(computed.backgroundColor);
+      return [
+        createParagraph(
+          element,
+          convertInline(children(), context, INLINE_STATE),
+          frame,
+          {
+            shading: shading
+              ? { type: ShadingType.CLEAR, color: "auto", fill: shading }
+              : undefined,
+          }
+        ),
+      ];
+    }
+    case "UL":
+    case "OL":
+      return convertList(element, context, 0, frame);
+    case "BLOCKQUOTE": {
+      const border = toWordBorder(computed, "left");
+      return convertNodes(children(), element, context, {
+        indent:
+          frame.indent +
+          twips(toPixels(computed.marginLeft) + toPixels(computed.paddingLeft)),
+        border: border.style === BorderStyle.NONE ? frame.border : border,
+      });
+    }
+    case "HR":
+      return [
+        createParagraph(element, [], frame, {
+          border: { bottom: { ...toWordBorder(computed, "top"), space: 1 } },
+        }),
+      ];
+    case "TABLE":
+      return [convertTable(element as HTMLTableElement, context)];
+  }
+
+  // Containers: layouts and boxes become tables
+  const box = measureBox(computed);
+  const layout = /flex|grid/.test(computed.display)
+    ? measureLayout(element, computed)
+    : null;
+  const content =
+    layout && layout.rows.some((row) => row.cells.length > 1)
+      ? convertLayout(layout, context)
+      : convertNodes(children(), element, context, box ? NO_FRAME : frame);
+  if (!box) return content;
+
+  const { width } = element.getBoundingClientRect();
+  return [
+    new Table({
+      width: { size: twips(width), type: WidthType.DXA },
+      columnWidths: [twips(width)],
+      layout: TableLayoutType.FIXED,
+      borders: NO_TABLE_BORDERS,
+      rows: [
+        new TableRow({
+          children: [
+            new TableCell({
+              width: { size: twips(width), type: WidthType.DXA },
+              ...box,
+              children: endWithParagraph(content),
+            }),
+          ],
+        }),
+      ],
+    }),
+  ];
+}
+
+/**
+ * Background, borders and padding of a box, as table cell options, or null
+ * when it has none of them
+ */
+function measureBox(computed: CSSStyleDeclaration) {
+  const background =
+    toWordColor(computed.backgroundColor) ??
+    // Gradients are shaded with their first colour
+    toWordColor(
+      /(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)|#[0-9a-f]{3,8}\b/i.exec(
+        computed.backgroundImage
+      )?.[0] ?? ""
+    );
+  const borders = Object.fromEntries(
+    BOX_SIDES.map((side) => [side, toWordBorder(computed, side)])
+  ) as Record<(typeof BOX_SIDES)[number], IBorderOptions>;
+  const margins = Object.fromEntries(
+    BOX_SIDES.map((side) => [
+      side,
+      twips(toPixels(computed.getPropertyValue(`padding-${side}`))),
+    ])
+  ) as Record<(typeof BOX_SIDES)[number], number>;
+
+  const hasBorder = BOX_SIDES.some(
+    (side) => borders[side].style !== BorderStyle.NONE
+  );
+  const hasPadding = BOX_SIDES.some((side) => margins[side] > 0);
+  if (!background && !hasBorder && !hasPadding) return null;
+
+  return {
+    shading: background
+      ? { type: ShadingType.CLEAR, color: "auto", fill: background }
+      : undefined,
+    borders,
+    margins,
+  };
+}
+
+function toWordBorder(
+  computed: CSSStyleDeclaration,
+  side: (typeof BOX_SIDES)[number]
+): IBorderOptions {
+  const width = toPixels(computed.getPropertyValue(`border-${side}-width`));
+  const style = computed.getPropertyValue(`border-${side}-style`);
+  const color = toWordColor(computed.getPropertyValue(`border-${side}-color`));
+  if (!width || style === "none" || style === "hidden" || !color) {
+    return NO_BORDER;
+  }
+  return {
+    style:
+      style === "dashed"
+        ? BorderStyle.DASHED
+        : style === "dotted"
+          ? BorderStyle.DOTTED
+          : style === "double"
+            ? BorderStyle.DOUBLE
+            : BorderStyle.SINGLE,
+    size: eighthPoints(width),
+    color,
+  };
+}
+
+/**
+ * One borderless table per visual row of a flex or grid container
+ * Gaps become left cell margins
+ */
+function convertLayout(
+  { rows, verticalAlign }: Layout,
+  context: DocxContext
+): Block[] {
+  return separateTables(
+    rows.map((row) => {
+      let right = 0;
+      const widths: number[] = [];
+      const cells = row.cells.map(({ element, left, width }) => {
+        const gap = Math.max(0, left - right);
+        right = left + width;
+        widths.push(twips(gap + width));
+        const content = isBlock(element)
+          ? convertBlock(element, context, NO_FRAME)
+          : convertNodes([element], element.parentElement!, context, NO_FRAME);
+        return new TableCell({
+          width: { size: twips(gap + width), type: WidthType.DXA },
+          margins: { top: 0, right: 0, bottom: 0, left: twips(gap) },
+          verticalAlign: VERTICAL_ALIGNS[verticalAlign],
+          borders: NO_TABLE_BORDERS,
+          children: endWithParagraph(content),
+        });
+      });
+
+      return new Table({
+        width: {
+          size: widths.reduce((sum, width) => sum + width, 0),
+          type: WidthType.DXA,
+        },
+        columnWidths: widths,
+        layout: TableLayoutType.FIXED,
+        borders: NO_TABLE_BORDERS,
+        rows: [new TableRow({ children: cells })],
+      });
+    })
+  );
+}
+
+function convertTable(table: HTMLTableElement, context: DocxContext): Table {
+  const rows = Array.from(table.rows);
+  const columnCount = Math.max(
+    ...rows.map((row) =>
+      Array.from(row.cells).reduce((sum, cell) => sum + cell.colSpan, 0)
+    )
+  );
+  // Column widths from a row without merged cells, if there is one
+  const gridRow = rows.find(
+    (row) =>
+      row.cells.length === columnCount &&
+      Array.from(row.cells).every((cell) => cell.colSpan === 1)
+  );
+  const { width } = table.getBoundingClientRect();
+  const columnWidths = gridRow
+    ? Array.from(gridRow.cells).map((cell) =>
+        twips(cell.getBoundingClientRect().width)
+      )
+    : Array.from({ length: columnCount }, () => twips(width / columnCount));
+
+  return new Table({
+    width: { size: twips(width), type: WidthType.DXA },
+    columnWidths,
+    layout: TableLayoutType.FIXED,
+    rows: rows.map(
+      (row) =>
+        new TableRow({
+          tableHeader: row.parentElement?.tagName === "THEAD",
+          children: Array.from(row.cells).map((cell) => {
+            const computed = getComputedStyle(cell);
+            return new TableCell({
+              width: {
+                size: twips(cell.getBoundingClientRect().width),
+                type: WidthType.DXA,
+              },
+              columnSpan: cell.colSpan,
+              rowSpan: cell.rowSpan,
+              verticalAlign:
+                computed.verticalAlign === "top"
+                  ? VerticalAlignTable.TOP
+                  : computed.verticalAlign === "bottom"
+                    ? VerticalAlignTable.BOTTOM
+                    : VerticalAlignTable.CENTER,
+              ...measureBox(computed),
+              children: endWithParagraph(
+                convertNodes(
+                  Array.from(cell.childNodes),
+                  cell,
+                  context,
+                  NO_FRAME
+                )
+              ),
+            });
+          }),
+        })
+    ),
+  });
+}
+
+/**
+ * List items as numbered paragraphs; nested lists go one level deeper
+ * Every list gets its own numbering definition, so each one starts at its
+ * `start` and keeps its marker style
+ */
+function convertList(
+  list: HTMLElement,
+  context: DocxContext,
+  level: number,
+  frame: BlockFrame
+): Block[] {
+  const reference = addListNumbering(list, context);
+  const itemFrame = { indent: LIST_INDENT * (level + 2) };
+  const children: Block[] = [];
+
+  for (const item of Array.from(list.children) as HTMLElement[]) {
+    let numbered = false;
+    let inline: Node[] = [];
+    const flush = (force = false) => {
+      const runs = convertInline(inline, context, INLINE_STATE);
+      inline = [];
+      if (!runs.length && (numbered || !force)) return;
+      children.push(
+        numbered
+          ? createParagraph(item, runs, itemFrame, { own: false })
+          : createParagraph(item, runs, frame, {
+              own: false,
+              numbering: { reference, level },
+            })
+      );
+      numbered = true;
+    };
+
+    for (const node of Array.from(item.childNodes)) {
+      if (node instanceof HTMLElement && /^(UL|OL)$/.test(node.tagName)) {
+        flush(true);
+        children.push(...convertList(node, context, level + 1, frame));
+      } else if (node instanceof HTMLElement && node.tagName === "P") {
+        flush();
+        inline = Array.from(node.childNodes);
+        flush(true);
+      } else if (isBlock(node)) {
+        flush(true);
+        children.push(...convertBlock(node, context, itemFrame));
+      } else {
+        inline.push(node);
+      }
+    }
+    flush(true);
+  }
+  return children;
+}
+
+function addListNumbering(list: HTMLElement, context: DocxContext): string {
+  const reference = `list-${context.lists.length + 1}`;
+  const [format, suffix] =
+    LIST_FORMATS[getComputedStyle(list).listStyleType] ??
+    (list.tagName === "OL" ? LIST_FORMATS.decimal : LIST_FORMATS.disc);
+  const start = Number(list.getAttribute("start") ?? 1) || 1;
+
+  context.lists.push({
+    reference,
+    levels: Array.from({ length: 9 }, (_, level) => ({
+      level,
+      format,
+      text: format === LevelFormat.BULLET ? suffix : `%${level + 1}${suffix}`,
+      start,
+      alignment: AlignmentType.LEFT,
+      style: {
+        paragraph: {
+          indent: { left: LIST_INDENT * (level + 2), hanging: LIST_INDENT },
+        },
+      },
+    })),
+  });
+  return reference;
+}
+
+/**
+ * Paragraph with the alignment, spacing and line height of `source`
+ * `own: false` when `source` only wraps the paragraph's content, so its
+ * margins don't apply
+ */
+function createParagraph(
+  source: HTMLElement,
+  children: ParagraphChild[],
+  frame: BlockFrame,
+  {
+    own = true,
+    ...options
+  }: Partial<IParagraphOptions> & { own?: boolean } = {}
+): Paragraph {
+  const computed = getComputedStyle(source);
+  const lineHeight = toPixels(computed.lineHeight);
+  const fontSize = toPixels(computed.fontSize);
+
+  return new Paragraph({
+    alignment: toAlignment(computed.textAlign),
+    spacing: {
+      before: own ? twips(toPixels(computed.marginTop)) : 0,
+      after: own ? twips(toPixels(computed.marginBottom)) : 0,
+      // Multiples of a single line, in 240ths
+      line:
+        lineHeight && fontSize
+          ? Math.round((lineHeight / fontSize) * 240)
+          : undefined,
+    },
+    indent: frame.indent ? { left: frame.indent } : undefined,
+    border: frame.border ? { left: { ...frame.border, space: 8 } } : undefined,
+    ...options,
+    children,
+  });
+}
+
+function toAlignment(textAlign: string) {
+  switch (textAlign) {
+    case "center":
+      return AlignmentType.CENTER;
+    case "right":
+    case "end":
+      return AlignmentType.RIGHT;
+    case "justify":
+      return AlignmentType.JUSTIFIED;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert inline content to runs, hyperlinks and images
+ */
+function convertInline(
+  nodes: Node[],
+  context: DocxContext,
+  state: InlineState
+): ParagraphChild[] {
+  const segments: InlineSegment[] = [];
+  collectSegments(nodes, context, state, segments);
+  collapseWhitespace(segments);
+
+  const children: ParagraphChild[] = [];
+  let link = null as { href: string; runs: ParagraphChild[] } | null;
+  for (const segment of segments) {
+    const run = createRun(segment);
+    if (!segment.link) {
+      link = null;
+      children.push(run);
+    } else if (link?.href === segment.link) {
+      link.runs.push(run);
+    } else {
+      link = { href: segment.link, runs: [run] };
+      children.push(
+        new ExternalHyperlink({ link: segment.link, children: link.runs })
+      );
+    }
+  }
+  return children;
+}
+
+function collectSegments(
+  nodes: Node[],
+  context: DocxContext,
+  state: InlineState,
+  segments: InlineSegment[]
+): void {
+  for (const node of nodes) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const parent = node.parentElement!;
+      const computed = getComputedStyle(parent);
+      const preserved = /^(pre|break-spaces)/.test(computed.whiteSpace);
+      const style = toRunStyle(computed, state);
+      const text = node.textContent ?? "";
+      const push = (part: string) => {
+        if (!part) return;
+        if (!state.fields) {
+          segments.push({
+            text: part,
+            collapsible: !preserved,
+            style,
+            link: state.link,
+          });
+          return;
+        }
+        part.split(/\{(pages?)\}/).forEach((piece, index) => {
+          if (index % 2) {
+            segments.push({
+              field:
+                piece === "page" ? PageNumber.CURRENT : PageNumber.TOTAL_PAGES,
+              collapsible: false,
+              style,
+            });
+          } else if (piece) {
+            segments.push({ text: piece, collapsible: !preserved, style });
+          }
+        });
+      };
+
+      if (!preserved) {
+        push(text.replace(/\s+/g, " "));
+        continue;
+      }
+      text
+        .replace(/\t/g, "    ")
+        .split("\n")
+        .forEach((line, index) => {
+          if (index) {
+            segments.push({ lineBreak: true, collapsible: false, style });
+          }
+          push(line);
+        });
+      continue;
+    }
+    if (!(node instanceof HTMLElement)) continue;
+
+    const computed = getComputedStyle(node);
+    if (computed.display === "none") continue;
+    const tag = node.tagName;
+
+    if (tag === "BR") {
+      segments.push({ lineBreak: true, collapsible: false, style: {} });
+    } else if (tag === "IMG") {
+      const image = context.images.get((node as HTMLImageElement).currentSrc);
+      const alt = node.getAttribute("alt") ?? "";
+      const { width, height } = node.getBoundingClientRect();
+      if (image && width && height) {
+        segments.push({
+          image: { ...image, width, height, alt },
+          collapsible: false,
+          style: {},
+          link: state.link,
+        });
+      } else if (alt) {
+        segments.push({
+          text: alt,
+          collapsible: true,
+          style: toRunStyle(computed, state),
+          link: state.link,
+        });
+      }
+    } else if (tag === "INPUT") {
+      if ((node as HTMLInputElement).type === "checkbox") {
+        segments.push({
+          text: (node as HTMLInputElement).checked ? "☒ " : "☐ ",
+          collapsible: false,
+          style: toRunStyle(computed, state),
+        });
+      }
+    } else {
+      const decoration = computed.textDecorationLine;
+      const background = computed.display.startsWith("inline")
+        ? toWordColor(computed.backgroundColor)
+        : undefined;
+      collectSegments(
+        Array.from(node.childNodes),
+        context,
+        {
+          ...state,
+          underline: state.underline || decoration.includes("underline"),
+          strike: state.strike || decoration.includes("line-through"),
+          shading: background ?? state.shading,
+          link:
+            tag === "A" && node.hasAttribute("href")
+              ? (node as HTMLAnchorElement).href
+              : state.link,
+        },
+        segments
+      );
+    }
+  }
+}
+
+/**
+ * Collapse spaces between segments and trim the ends, as a browser does
+ */
+function collapseWhitespace(segments: InlineSegment[]): void {
+  let afterSpace = true;
+  for (const segment of segments) {
+    if (segment.text === undefined) {
+      afterSpace = Boolean(segment.lineBreak);
+      continue;
+    }
+    if (segment.collapsible && afterSpace) {
+      segment.text = segment.text.replace(/^ /, "");
+    }
+    if (segment.text) afterSpace = segment.text.endsWith(" ");
+  }
+
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+    if (segment.text === undefined) break;
+    if (segment.collapsible) segment.text = segment.text.replace(/ $/, "");
+    if (segment.text) break;
+  }
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].text === "") segments.splice(i, 1);
+  }
+  // A line break at the end of a paragraph adds nothing
+  if (segments[segments.length - 1]?.lineBreak) segments.pop();
+}
+
+function createRun(segment: InlineSegment): ParagraphChild {
+  if (segment.image) {
+    const { type, data, width, height, alt } = segment.image;
+    return new ImageRun({
+      type,
+      data,
+      transformation: { width: Math.round(width), height: Math.round(height) },
+      altText: { name: alt, description: alt, title: alt },
+    });
+  }
+  if (segment.lineBreak) return new TextRun({ break: 1 });
+  if (segment.field) {
+    return new TextRun({ ...segment.style, children: [segment.field] });
+  }
+  return new TextRun({ ...segment.style, text: segment.text });
+}
+
+function toRunStyle(
+  computed: CSSStyleDeclaration,
+  state: InlineState
+): IRunOptions {
+  return {
+    bold: parseInt(computed.fontWeight) >= 600,
+    italics: computed.fontStyle === "italic",
+    underline: state.underline ? {} : undefined,
+    strike: state.strike,
+    allCaps: computed.textTransform === "uppercase",
+    color: toWordColor(computed.color),
+    size: halfPoints(toPixels(computed.fontSize)) || undefined,
+    font: toWordFont(computed.fontFamily),
+    superScript: computed.verticalAlign === "super",
+    subScript: computed.verticalAlign === "sub",
+    shading: state.shading
+      ? { type: ShadingType.CLEAR, color: "auto", fill: state.shading }
+      : undefined,
+  };
+}
+
+/**
+ * Hex colour without `#`; translucent colours are blended onto white
+ */
+function toWordColor(color: string): string | undefined {
+  if (!color) return undefined;
+  const hex = toHexColor(color);
+  if (/^#[0-9a-f]{6}$/.test(hex)) return hex.slice(1);
+
+  const rgba = /^rgba\((\d+), (\d+), (\d+), ([\d.]+)\)$/.exec(hex);
+  if (!rgba) return undefined;
+  const alpha = Number(rgba[4]);
+  return rgba
+    .slice(1, 4)
+    .map((channel) =>
+      Math.round(Number(channel) * alpha + 255 * (1 - alpha))
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("");
+}
+
+// Word has no generic families; these are on every system
+const GENERIC_FONTS: Record<string, string> = {
+  serif: "Times New Roman",
+  "ui-serif": "Times New Roman",
+  monospace: "Courier New",
+  "ui-monospace": "Courier New",
+  "sans-serif": "Arial",
+  "ui-sans-serif": "Arial",
+  "system-ui": "Arial",
+};
+
+/**
+ * First font of a CSS font stack that Word can use
+ */
+function toWordFont(fontFamily: string): string | undefined {
+  const family = fontFamily
+    .split(",")
+    .map((entry) => entry.trim().replace(/^["']|["']$/g, ""))
+    // next/font's generated family names only exist inside the app
+    .find((entry) => entry && !entry.startsWith("__"));
+  return family ? (GENERIC_FONTS[family] ?? family) : undefined;
+}
+
+/**
+ * Word joins adjacent tables into one; keep them apart with a hairline
+ * paragraph
+ */
+function separateTables(children: Block[]): Block[] {
+  return children.flatMap((child, index) =>
+    child instanceof Table && children[index - 1] instanceof Table
+      ? [
+          new Paragraph({
+            spacing: {
+              before: 0,
+              after: 0,
+              line: 20,
+              lineRule: LineRuleType.EXACT,
+            },
+          }),
+          child,
+        ]
+      : [child]
+  );
+}
+
+/**
+ * Word needs a paragraph at the end of every table cell
+ */
+function endWithParagraph(children: Block[]): Block[] {
+  return children[children.length - 1] instanceof Paragraph
+    ? children
+    : [...children, new Paragraph({})];
+}
+
+/**
+ * The default, first and even page variants of a running header or footer
+ * Word's default variant is used for odd pages when even pages differ.
+ * Parts are laid out with a center and a right tab stop
+ */
+function renderRunningElements(
+  kind: keyof PageTemplates,
+  set: RunningTemplateSet,
+  {
+    host,
+    context,
+    contentWidth,
+    variables,
+  }: {
+    host: HTMLElement;
+    context: DocxContext;
+    contentWidth: number;
+    variables: { title: string; section: string; date: string };
+  }
+): { default: Paragraph[]; first: Paragraph[]; even: Paragraph[] } {
+  const render = (template: RunningTemplate | null | undefined) => {
+    if (!template) return [new Paragraph({})];
+
+    const wrapper = document.createElement("div");
+    // Page numbers become fields; the placeholders survive filling in
+    wrapper.innerHTML = renderRunningElement(kind, template, {
+      ...variables,
+      page: "{page}",
+      pages: "{pages}",
+    });
+    host.appendChild(wrapper);
+    const running = wrapper.firstElementChild as HTMLElement;
+    const children: ParagraphChild[] = [];
+    Array.from(running.children).forEach((part, index) => {
+      if (index) children.push(new TextRun({ children: [new Tab()] }));
+      children.push(
+        ...convertInline(Array.from(part.childNodes), context, {
+          ...INLINE_STATE,
+          fields: true,
+        })
+      );
+    });
+    const paragraph = createParagraph(running, children, NO_FRAME, {
+      own: false,
+      alignment: AlignmentType.LEFT,
+      tabStops: [
+        { type: TabStopType.CENTER, position: twips(contentWidth / 2) },
+        { type: TabStopType.RIGHT, position: twips(contentWidth) },
+      ],
+    });
+    wrapper.remove();
+    return [paragraph];
+  };
+
+  const odd = set.odd !== undefined ? set.odd : set.default;
+  return {
+    default: render(odd),
+    first: render(set.first !== undefined ? set.first : odd),
+    even: render(set.even !== undefined ? set.even : set.default),
+  };
+}
+
+/**
+ * Load every image once, by its resolved URL
+ * Formats Word can't show are redrawn as PNG; images that can't be
+ * fetched or redrawn, e.g. cross-origin ones, fall back to their alt text
+ */
+async function loadImages(
+  host: HTMLElement
+): Promise<Map<string, DocxImage | null>> {
+  const images = new Map<string, Promise<DocxImage | null>>();
+  for (const image of Array.from(host.querySelectorAll("img"))) {
+    if (image.currentSrc && !images.has(image.currentSrc)) {
+      images.set(image.currentSrc, loadImage(image));
+    }
+  }
+
+  const loaded = new Map<string, DocxImage | null>();
+  await Promise.all(
+    Array.from(images, async ([src, image]) => loaded.set(src, await image))
+  );
+  return loaded;
+}
+
+async function loadImage(image: HTMLImageElement): Promise<DocxImage | null> {
+  const src = image.currentSrc;
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const type = IMAGE_TYPES[blob.type];
+    if (type) return { data: await blob.arrayBuffer(), type };
+
+    const canvas = document.createElement("canvas");
+    const { width, height } = image.getBoundingClientRect();
+    canvas.width = image.naturalWidth || Math.round(width);
+    canvas.height = image.naturalHeight || Math.round(height);
+    canvas
+      .getContext("2d")
+      ?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const png = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/png")
+    );
+    return png ? { data: await png.arrayBuffer(), type: "png" } : null;
+  } catch (error) {
+    console.warn(`Failed to embed image ${src}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,516 @@
+/**
+ * Email-safe HTML export
+ *
+ * Email clients ignore stylesheets, classes, CSS variables, modern colour
+ * spaces, flexbox and grid. The document is laid out off screen at the
+ * email's width with the app's styles; every element then gets the
+ * computed styles that matter as an inline `style`, flex and grid layouts
+ * are rebuilt as tables from their measured positions, and whatever email
+ * clients strip is dropped. Browser only.
+ */
+
+import { waitForResources } from "./markover-paginator";
+import { escapeHtml } from "./markover-sanitizer";
+
+export interface EmailExportOptions {
+  title?: string;
+  /** Compiled TailwindCSS for the classes used in the document */
+  css?: string;
+  /** Width of the email body in pixels (default: 600) */
+  width?: number;
+}
+
+// Properties that inherit; inlined when they differ from the parent's
+const INHERITED_PROPERTIES = [
+  "color",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "line-height",
+  "letter-spacing",
+  "text-align",
+  "text-transform",
+  "white-space",
+  "list-style-type",
+  "border-collapse",
+];
+
+// Properties that don't inherit; inlined when they differ from the default
+const OWN_PROPERTIES = [
+  "background-color",
+  "background-image",
+  "text-decoration-line",
+  "vertical-align",
+  "max-width",
+];
+
+const BOX_SIDES = ["top", "right", "bottom", "left"] as const;
+const BOX_CORNERS = ["top-left", "top-right", "bottom-right", "bottom-left"];
+
+// Elements email clients strip or can't show
+const DROPPED_SELECTOR = [
+  "script",
+  "style",
+  "link",
+  "meta",
+  "noscript",
+  "iframe",
+  "object",
+  "embed",
+  "video",
+  "audio",
+  "canvas",
+  "svg",
+  "form",
+  "input",
+  "button",
+  "select",
+  "textarea",
+  // Page directive markers only matter to pagination
+  "[data-page-break]",
+  "[data-no-header]",
+  "[data-no-footer]",
+  "[data-section]",
+].join(", ");
+
+const KEPT_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "alt",
+  "title",
+  "width",
+  "height",
+  "colspan",
+  "rowspan",
+  "start",
+]);
+
+const PRESENTATION_TABLE =
+  '<table role="presentation" cellpadding="0" cellspacing="0" border="0"';
+
+/**
+ * Render rendered MarkOver HTML as an email-safe HTML document
+ * The document's classes must be styled in the current page, by the
+ * preview or by passing `css`
+ */
+export async function exportEmailHtml(
+  html: string,
+  { title = "", css = "", width = 600 }: EmailExportOptions = {}
+): Promise<string> {
+  const style = document.createElement("style");
+  style.textContent = css;
+  const host = document.createElement("div");
+  host.className = "markover-content";
+  host.setAttribute("aria-hidden", "true");
+  Object.assign(host.style, {
+    position: "absolute",
+    top: "0",
+    left: "-10000px",
+    width: `${width}px`,
+    pointerEvents: "none",
+  });
+  host.innerHTML = html;
+  const defaults = createDefaultStyles();
+  document.head.appendChild(style);
+  document.body.appendChild(host);
+
+  try {
+    await waitForResources(host);
+    const content = inlineStyles(host, defaults.get);
+    return [
+      "<!DOCTYPE html>",
+      "<html>",
+      "<head>",
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      "</head>",
+      '<body style="margin: 0; padding: 0; background-color: #ffffff">',
+      `${PRESENTATION_TABLE} width="100%"><tr><td align="center">`,
+      `${PRESENTATION_TABLE} width="${width}" style="width: ${width}px; max-width: ${width}px">`,
+      `<tr><td style="${content.style}">${content.html}</td></tr>`,
+      "</table>",
+      "</td></tr></table>",
+      "</body>",
+      "</html>",
+      "",
+    ].join("\n");
+  } finally {
+    host.remove();
+    style.remove();
+    defaults.dispose();
+  }
+}
+
+/**
+ * Inline the styles of everything inside `host` and rebuild its layouts
+ * Returns the resulting HTML and the host's own inline style, which goes
+ * on the cell the content is placed in
+ */
+function inlineStyles(
+  host: HTMLElement,
+  getDefaults: (tagName: string) => CSSStyleDeclaration
+): { html: string; style: string } {
+  for (const element of Array.from(host.querySelectorAll(DROPPED_SELECTOR))) {
+    element.remove();
+  }
+
+  // Measure everything before the tree changes
+  const elements = [host, ...Array.from(host.querySelectorAll("*"))];
+  const hidden = new Set<Element>();
+  const styles = new Map<Element, string>();
+  const layouts = new Map<Element, Layout>();
+  for (const element of elements) {
+    const computed = getComputedStyle(element);
+    if (computed.display === "none") {
+      hidden.add(element);
+      continue;
+    }
+    // The host's cell has no styled parent in the email
+    const parent = element === host ? null : element.parentElement;
+    styles.set(
+      element,
+      collectStyle(
+        element,
+        computed,
+        parent ? getComputedStyle(parent) : null,
+        getDefaults
+      )
+    );
+    if (/^(inline-)?(flex|grid)$/.test(computed.display)) {
+      layouts.set(element, measureLayout(element as HTMLElement, computed));
+    }
+  }
+
+  const laidOut = new Set(
+    Array.from(layouts.values()).flatMap(({ rows }) =>
+      rows.flatMap((row) => row.cells.map((cell) => cell.element))
+    )
+  );
+  for (const element of elements) {
+    if (hidden.has(element)) {
+      element.remove();
+      continue;
+    }
+    let style = styles.get(element) ?? "";
+    // Table cells take over the position of laid out children
+    if (laidOut.has(element)) {
+      style = style.replace(/(^|; )margin: [^;]*/, "") + "; margin: 0";
+    }
+    if (element instanceof HTMLImageElement) {
+      const imageWidth = Math.round(element.getBoundingClientRect().width);
+      element.setAttribute("width", String(imageWidth));
+      style += `; border: 0; height: auto; max-width: 100%`;
+    }
+
+    for (const { name } of Array.from(element.attributes)) {
+      if (!KEPT_ATTRIBUTES.has(name)) element.removeAttribute(name);
+    }
+    style = style.replace(/^; /, "");
+    if (style && element !== host) element.setAttribute("style", style);
+  }
+
+  for (const [element, layout] of layouts) {
+    if (element.isConnected) renderLayout(element, layout);
+  }
+
+  return {
+    html: host.innerHTML,
+    style: (styles.get(host) ?? "").replace(/^; /, ""),
+  };
+}
+
+/**
+ * Inline style for one element
+ * Inherited properties are written when they differ from the parent's, or
+ * when email clients' default styles for the tag would change them; other
+ * properties when they differ from the tag's default
+ */
+function collectStyle(
+  element: Element,
+  computed: CSSStyleDeclaration,
+  parent: CSSStyleDeclaration | null,
+  getDefaults: (tagName: string) => CSSStyleDeclaration
+): string {
+  const defaults = getDefaults(element.tagName);
+  const plain = getDefaults("DIV");
+  const declarations: string[] = [];
+  const add = (property: string, value: string) =>
+    declarations.push(`${property}: ${toEmailValue(property, value)}`);
+
+  for (const property of INHERITED_PROPERTIES) {
+    const value = computed.getPropertyValue(property);
+    const reference = parent
+      ? parent.getPropertyValue(property)
+      : plain.getPropertyValue(property);
+    const tagDefault = defaults.getPropertyValue(property);
+    if (
+      value !== reference ||
+      tagDefault !== plain.getPropertyValue(property)
+    ) {
+      add(property, value);
+    }
+  }
+  for (const property of OWN_PROPERTIES) {
+    const value = computed.getPropertyValue(property);
+    if (value !== defaults.getPropertyValue(property)) add(property, value);
+  }
+  // Clients without gradients fall back to the first gradient colour
+  const gradientColor =
+    /gradient\(.*?\b((?:rgba?|oklch|oklab|lab|lch|hsla?|color)\([^()]*\))/.exec(
+      computed.backgroundImage
+    );
+  if (gradientColor && computed.backgroundColor === "rgba(0, 0, 0, 0)") {
+    add("background-color", gradientColor[1]);
+  }
+
+  // Box properties as shorthands, written out when any side differs
+  for (const box of ["margin", "padding"]) {
+    const values = BOX_SIDES.map((side) =>
+      computed.getPropertyValue(`${box}-${side}`)
+    );
+    if (
+      values.some(
+        (value, index) =>
+          value !== defaults.getPropertyValue(`${box}-${BOX_SIDES[index]}`)
+      )
+    ) {
+      add(box, values.join(" "));
+    }
+  }
+  const borders = BOX_SIDES.map((side) =>
+    computed.getPropertyValue(`border-${side}-style`) === "none"
+      ? ""
+      : ["width", "style", "color"]
+          .map((part) =>
+            toEmailValue(
+              part,
+              computed.getPropertyValue(`border-${side}-${part}`)
+            )
+          )
+          .join(" ")
+  );
+  if (borders.every((border) => border && border === borders[0])) {
+    add("border", borders[0]);
+  } else {
+    borders.forEach((border, index) => {
+      if (border) add(`border-${BOX_SIDES[index]}`, border);
+    });
+  }
+  const radii = BOX_CORNERS.map((corner) =>
+    computed.getPropertyValue(`border-${corner}-radius`)
+  );
+  if (radii.some((radius) => parseFloat(radius) > 0)) {
+    add("border-radius", radii.join(" "));
+  }
+
+  return declarations.length ? `; ${declarations.join("; ")}` : "";
+}
+
+export interface LayoutRow {
+  top: number;
+  bottom: number;
+  cells: { element: Element; left: number; width: number }[];
+}
+
+export interface Layout {
+  rows: LayoutRow[];
+  /** `valign` for the cells, from `align-items` */
+  verticalAlign: "top" | "middle" | "bottom";
+}
+
+/**
+ * Group a flex or grid container's children into visual rows
+ * Children whose boxes overlap vertically share a row. Also used by DOCX
+ * export
+ */
+export function measureLayout(
+  container: HTMLElement,
+  computed: CSSStyleDeclaration
+): Layout {
+  // Loose text would become an anonymous item; give it an element
+  for (const node of Array.from(container.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      const wrapper = document.createElement("span");
+      node.replaceWith(wrapper);
+      wrapper.appendChild(node);
+    }
+  }
+
+  const bounds = container.getBoundingClientRect();
+  const contentLeft =
+    bounds.left +
+    parseFloat(computed.borderLeftWidth) +
+    parseFloat(computed.paddingLeft);
+
+  const rows: LayoutRow[] = [];
+  for (const child of Array.from(container.children)) {
+    const rect = child.getBoundingClientRect();
+    if (!rect.width && !rect.height) continue;
+
+    const cell = {
+      element: child,
+      left: rect.left - contentLeft,
+      width: rect.width,
+    };
+    const row = rows.find(
+      (candidate) => rect.top < candidate.bottom && rect.bottom > candidate.top
+    );
+    if (row) {
+      row.cells.push(cell);
+      row.top = Math.min(row.top, rect.top);
+      row.bottom = Math.max(row.bottom, rect.bottom);
+    } else {
+      rows.push({ top: rect.top, bottom: rect.bottom, cells: [cell] });
+    }
+  }
+  for (const row of rows) row.cells.sort((a, b) => a.left - b.left);
+
+  const verticalAlign = /center/.test(computed.alignItems)
+    ? "middle"
+    : /end/.test(computed.alignItems)
+      ? "bottom"
+      : "top";
+  return { rows: rows.sort((a, b) => a.top - b.top), verticalAlign };
+}
+
+/**
+ * Replace a layout container's children with one table per row
+ * Gaps and alignment become cell padding; the container keeps its own
+ * background, border and padding
+ */
+function renderLayout(
+  container: Element,
+  { rows, verticalAlign }: Layout
+): void {
+  const tables = rows.map((row, rowIndex) => {
+    const wrapper = document.createElement("div");
+    const previous = rows[rowIndex - 1];
+    const rowGap = previous ? Math.max(0, row.top - previous.bottom) : 0;
+
+    let right = 0;
+    const cells = row.cells.map(({ left, width }) => {
+      const gap = Math.max(0, Math.round(left - right));
+      right = left + width;
+      const padding = [
+        rowGap && `padding-top: ${Math.round(rowGap)}px`,
+        gap && `padding-left: ${gap}px`,
+      ]
+        .filter(Boolean)
+        .join("; ");
+      return `<td valign="${verticalAlign}" width="${Math.round(width)}"${padding ? ` style="${padding}"` : ""}></td>`;
+    });
+    wrapper.innerHTML = `${PRESENTATION_TABLE} width="100%" style="border-collapse: collapse"><tr>${cells.join("")}<td></td></tr></table>`;
+
+    const tds = wrapper.querySelectorAll("td");
+    row.cells.forEach(({ element }, index) => tds[index].appendChild(element));
+    return wrapper.firstElementChild!;
+  });
+
+  container.replaceChildren(...tables);
+}
+
+/**
+ * Email clients understand hex colours and plain font stacks
+ */
+function toEmailValue(property: string, value: string): string {
+  if (property === "font-family") return toEmailFontFamily(value);
+  return (
+    value
+      // Gradient interpolation spaces are too new for email clients
+      .replace(/\(in [a-z-]+(?: [a-z]+ hue)?,\s*/g, "(")
+      .replace(
+        /\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)/g,
+        toHexColor
+      )
+  );
+}
+
+// Generic families that end a font stack
+const GENERIC_FONT_FAMILIES =
+  /^(serif|sans-serif|monospace|cursive|fantasy|system-ui|ui-\w+)$/;
+
+function toEmailFontFamily(value: string): string {
+  // next/font's generated family names only exist inside the app
+  const families = value
+    .split(",")
+    .map((family) => family.trim())
+    .filter((family) => family && !/^["']?__/.test(family));
+  if (!families.some((family) => GENERIC_FONT_FAMILIES.test(family))) {
+    families.push("Arial", "Helvetica", "sans-serif");
+  }
+  return families.join(", ");
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+const hexColors = new Map<string, string>();
+
+/**
+ * Convert any CSS colour to hex (or rgba when translucent) by painting it
+ * Also used by DOCX export
+ */
+export function toHexColor(color: string): string {
+  let hex = hexColors.get(color);
+  if (hex !== undefined) return hex;
+
+  if (!colorContext) {
+    const canvas = document.createElement("canvas");
+    canvas.width = canvas.height = 1;
+    colorContext = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!colorContext) return color;
+
+  colorContext.clearRect(0, 0, 1, 1);
+  colorContext.fillStyle = color;
+  colorContext.fillRect(0, 0, 1, 1);
+  const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data;
+  hex =
+    a === 255
+      ? `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, "0")).join("")}`
+      : a === 0
+        ? "transparent"
+        : `rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(2)})`;
+  hexColors.set(color, hex);
+  return hex;
+}
+
+/**
+ * Default computed styles per tag, from an unstyled document
+ * These are the styles an email client applies on its own
+ */
+function createDefaultStyles(): {
+  get: (tagName: string) => CSSStyleDeclaration;
+  dispose: () => void;
+} {
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("aria-hidden", "true");
+  Object.assign(iframe.style, {
+    position: "absolute",
+    left: "-10000px",
+    width: "0",
+    height: "0",
+    border: "0",
+  });
+  document.body.appendChild(iframe);
+  // Standards mode, like the exported document
+  const frameDocument = iframe.contentDocument!;
+  frameDocument.open();
+  frameDocument.write("<!DOCTYPE html><html><head></head><body></body></html>");
+  frameDocument.close();
+  const cache = new Map<string, CSSStyleDeclaration>();
+
+  return {
+    get: (tagName) => {
+      let style = cache.get(tagName);
+      if (!style) {
+        const element = frameDocument.createElement(tagName);
+        frameDocument.body.appendChild(element);
+        style = frameDocument.defaultView!.getComputedStyle(element);
+        cache.set(tagName, style);
+      }
+      return style;
+    },
+    dispose: () => iframe.remove(),
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Standalone HTML export
+ *
+ * Produces one self-contained `.html` file: the rendered document, CSS for
+ * exactly the TailwindCSS classes it uses and the `.markover-content` base
+ * styles. It needs neither the app nor a network connection, except for
+ * images that are not inlined.
+ */
+
+import { escapeHtml } from "./markover-sanitizer";
+import { compileTailwindCss } from "./tailwind-runtime";
+
+export interface HtmlExportOptions {
+  title?: string;
+  /** Theme stylesheet for compiling the document's classes, see `loadTailwindTheme` */
+  tailwindTheme?: string;
+  /** Base styles for the content, see `loadContentStyles` */
+  contentStyles?: string;
+  /**
+   * Embed images as data URIs (default: false)
+   * Images that can't be fetched, e.g. cross-origin ones without CORS
+   * headers, keep their URL
+   */
+  inlineImages?: boolean;
+}
+
+// Page frame for the exported document; content styles come from the app
+const DOCUMENT_CSS = `
+body {
+  max-width: 48rem;
+  margin: 0 auto;
+  padding: 2rem 1.5rem;
+  background: var(--background);
+  font-family: ui-sans-serif, system-ui, sans-serif;
+}
+`;
+
+/**
+ * Render rendered MarkOver HTML as a standalone HTML document
+ * Browser only when `inlineImages` is set
+ */
+export async function exportHtml(
+  html: string,
+  {
+    title = "",
+    tailwindTheme,
+    contentStyles = "",
+    inlineImages = false,
+  }: HtmlExportOptions = {}
+): Promise<string> {
+  const [body, tailwindCss] = await Promise.all([
+    inlineImages ? inlineImageSources(html) : html,
+    tailwindTheme ? compileTailwindCss(tailwindTheme, html) : "",
+  ]);
+  const styles = [contentStyles, tailwindCss, DOCUMENT_CSS]
+    .join("\n")
+    .replace(/<\/style/gi, "\\3c /style");
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${styles}</style>`,
+    "</head>",
+    "<body>",
+    `<main class="markover-content">${body}</main>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Replace image URLs with data URIs
+ * Each distinct URL is fetched once; failures keep the original URL
+ */
+async function inlineImageSources(html: string): Promise<string> {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  const images = Array.from(template.content.querySelectorAll("img[src]"));
+
+  const dataUris = new Map<string, Promise<string | null>>();
+  for (const image of images) {
+    const src = image.getAttribute("src")!;
+    if (!src.startsWith("data:") && !dataUris.has(src)) {
+      dataUris.set(src, fetchDataUri(src));
+    }
+  }
+
+  await Promise.all(
+    images.map(async (image) => {
+      const dataUri = await dataUris.get(image.getAttribute("src")!);
+      if (dataUri) {
+        image.setAttribute("src", dataUri);
+        // The embedded image replaces every candidate
+        image.removeAttribute("srcset");
+      }
+    })
+  );
+  return template.innerHTML;
+}
+
+async function fetchDataUri(src: string): Promise<string | null> {
+  try {
+    const response = await fetch(new URL(src, document.baseURI));
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn(`Failed to inline image ${src}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { importFile, importMarkdown } from "./markover-import";
+import { exportMarkdown } from "./markover-markdown-export";
+import { MarkOverParser } from "./markover-parser";
+
+const parser = new MarkOverParser();
+const source = (markdown: string) => importMarkdown(markdown).source;
+
+describe("importMarkdown", () => {
+  it("escapes MarkOver syntax in text", () => {
+    const result = importMarkdown("Use <>'x' and </> here\n\n:::flex");
+    expect(result.source).toBe("Use \\<>'x' and \\</> here\n\n\\:::flex\n");
+    expect(
+      result.diagnostics.map((diagnostic) => diagnostic.position.start.line)
+    ).toEqual([1, 3]);
+  });
+
+  it("leaves inline code, fenced code and indented code alone", () => {
+    const markdown = [
+      "Inline `<>'x'`",
+      "",
+      "```",
+      "<>'fenced'",
+      "```",
+      "",
+      "    <>'indented'",
+      "\t</>",
+    ].join("\n");
+    expect(source(markdown)).toBe(`${markdown}\n`);
+  });
+
+  it("escapes indented lines that continue a paragraph or list item", () => {
+    expect(source("Para\n    <>'a'")).toBe("Para\n    \\<>'a'\n");
+    expect(source("- item\n\n    <>'a'")).toBe("- item\n\n    \\<>'a'\n");
+  });
+
+  it("keeps the indent of code at the start of the document", () => {
+    expect(source("\n\n    <>'code'")).toBe("    <>'code'\n");
+  });
+
+  it("turns wrappers with classes into Angle Blocks", () => {
+    expect(
+      source(
+        '<div class="flex" style="gap: 4px">\n\nx\n\n</div>\n\n<div>\n\ny\n\n</div>'
+      )
+    ).toBe(
+      "<>'flex' {style=\"gap: 4px\"}\n\nx\n\n</>\n\n<div>\n\ny\n\n</div>\n"
+    );
+  });
+
+  it("keeps the tag, id, data and aria attributes", () => {
+    expect(
+      source(
+        '<section class="p-4" id="intro" data-role="a" aria-label=\'b\'>\n\nx\n\n</section>'
+      )
+    ).toBe(
+      '<>\'p-4\' {tag=section #intro data-role="a" aria-label="b"}\n\nx\n\n</>\n'
+    );
+  });
+
+  it("decodes attribute values", () => {
+    expect(
+      source(
+        '<div class="a" style="font-family: &quot;Inter&quot;">\nx\n</div>'
+      )
+    ).toBe("<>'a' {style='font-family: \"Inter\"'}\nx\n</>\n");
+  });
+
+  it("reports attributes an Angle Block can't carry", () => {
+    const result = importMarkdown(
+      '<div class="a" onclick="x" hidden>\n\nx\n\n</div>'
+    );
+    expect(result.source).toBe("<>'a'\n\nx\n\n</>\n");
+    expect(result.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      'Attribute "onclick" on <div> has no Angle Block equivalent and was left out',
+      'Attribute "hidden" on <div> has no Angle Block equivalent and was left out',
+    ]);
+    expect(result.diagnostics[0].position.start.line).toBe(1);
+  });
+
+  it("matches closing tags to their own wrapper", () => {
+    expect(
+      source('<section class="a">\n\n<div>\n\nx\n\n</div>\n\n</section>')
+    ).toBe("<>'a' {tag=section}\n\n<div>\n\nx\n\n</div>\n\n</>\n");
+  });
+
+  it("restores blocks written as comments", () => {
+    expect(source("<!-- <>'p-4' {#a} -->\n\nx\n\n<!-- </> -->")).toBe(
+      "<>'p-4' {#a}\n\nx\n\n</>\n"
+    );
+  });
+});
+
+describe("importFile", () => {
+  it("loads .mo files as they are", () => {
+    expect(importFile("doc.mo", "<>'a'\r\nx\r\n</>").source).toBe(
+      "<>'a'\nx\n</>"
+    );
+  });
+});
+
+describe("Markdown round trip", () => {
+  const document = [
+    "# Title",
+    "",
+    "<>'p-4 bg-white' {#intro tag=section data-role=summary style=\"border: 1px solid red\"}",
+    "Some *text*.",
+    "",
+    "- one",
+    "- two",
+    "</>",
+    "",
+    ":::flex justify=center gap=4",
+    "<>'w-1/2'",
+    "left",
+    "</>",
+    "right",
+    ":::",
+    "",
+    "```",
+    "<>'in code'",
+    "```",
+  ].join("\n");
+
+  it.each(["comment", "html"] as const)(
+    "renders the same after export with classes as %s and import",
+    (classes) => {
+      const { markdown } = exportMarkdown(parser, document, { classes });
+      const imported = importMarkdown(markdown);
+      expect(imported.diagnostics).toEqual([]);
+      expect(parser.parse(imported.source).html).toBe(
+        parser.parse(document).html
+      );
+    }
+  );
+
+  it("keeps spans when they are exported as HTML", () => {
+    const text = "A <>'text-red-500'[red] word";
+    const { markdown } = exportMarkdown(parser, text, { classes: "html" });
+    expect(parser.parse(source(markdown)).html).toBe(parser.parse(text).html);
+  });
+});
@@ -0,0 +1,837 @@
+/**
+ * Import HTML and Markdown into MarkOver
+ *
+ * HTML (files or content pasted from a browser) is converted to Markdown;
+ * wrappers with classes become Angle Blocks and styled inline elements
+ * Angle spans. Markdown is already MarkOver, apart from `<div class>`
+ * wrappers and the comments written by Markdown export, which are turned
+ * back into blocks. Anything without a MarkOver equivalent is reported as
+ * a diagnostic pointing into the imported source. HTML import is browser
+ * only.
+ */
+
+import { createPointLookup } from "./markover-ast";
+import type {
+  MarkOverDiagnostic,
+  MarkOverDiagnosticCode,
+  MarkOverDiagnosticSeverity,
+} from "./markover-diagnostics";
+
+export interface MarkOverImportResult {
+  /** MarkOver source */
+  source: string;
+  diagnostics: MarkOverDiagnostic[];
+}
+
+interface ImportNote {
+  severity: MarkOverDiagnosticSeverity;
+  code: MarkOverDiagnosticCode;
+  message: string;
+}
+
+// Notes are placed in the output as markers and turned into positions
+// once the whole source is assembled
+const NOTE_MARKER_REGEX = /\u0000(\d+)\u0000/g;
+
+// Elements that can become Angle Blocks ({tag=section})
+const CONTAINER_TAGS = new Set([
+  "DIV",
+  "SECTION",
+  "ARTICLE",
+  "ASIDE",
+  "HEADER",
+  "FOOTER",
+  "NAV",
+  "MAIN",
+  "FIGURE",
+  "FIGCAPTION",
+  "ADDRESS",
+  "CENTER",
+]);
+
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  "P",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "UL",
+  "OL",
+  "LI",
+  "BLOCKQUOTE",
+  "PRE",
+  "HR",
+  "TABLE",
+  "DL",
+  "DETAILS",
+  "FORM",
+  "FIELDSET",
+]);
+
+// Elements removed with their content
+const DROPPED_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "NOSCRIPT",
+  "TEMPLATE",
+  "IFRAME",
+  "OBJECT",
+  "EMBED",
+  "CANVAS",
+  "SVG",
+  "VIDEO",
+  "AUDIO",
+  "FORM",
+  "INPUT",
+  "BUTTON",
+  "SELECT",
+  "TEXTAREA",
+  "LINK",
+  "META",
+]);
+
+// Inline elements without Markdown syntax, kept as inline HTML
+const INLINE_HTML_TAGS = new Set([
+  "ABBR",
+  "CITE",
+  "INS",
+  "KBD",
+  "MARK",
+  "Q",
+  "SAMP",
+  "SMALL",
+  "SUB",
+  "SUP",
+  "TIME",
+  "U",
+  "VAR",
+]);
+
+// Wrappers on lines of their own in Markdown that become Angle Blocks;
+// the elements Markdown export writes in html mode
+const MARKDOWN_WRAPPER_TAGS = new Set([
+  ...CONTAINER_TAGS,
+  "BLOCKQUOTE",
+  "DETAILS",
+  "SUMMARY",
+]);
+
+// Angle Block attributes besides id and tag
+const ANGLE_ATTRIBUTE_REGEX = /^(style|title|role|lang|dir|data-.+|aria-.+)$/;
+
+// Tags that only show up in HTML copied from a document, not from editors
+// that put their styled text on the clipboard
+const RICH_HTML_REGEX =
+  /<(p|h[1-6]|ul|ol|li|table|a|img|strong|b|em|i|blockquote|pre)[\s>]/i;
+
+// Lines indented four columns, which are code unless they continue a
+// paragraph or a list item
+const INDENTED_CODE_REGEX = /^(?: {4}| {0,3}\t)/;
+const LIST_ITEM_REGEX = /^ {0,3}([-+*]|\d{1,9}[.)])(\s|$)/;
+// Lines that end a paragraph without being one
+const NON_PARAGRAPH_REGEX = /^ {0,3}(#{1,6}(\s|$)|([-*_])( *\3){2,} *$)/;
+
+/**
+ * Import a file by its extension: `.html`/`.htm` as HTML, `.md`/`.markdown`
+ * as Markdown, anything else (including `.mo`) as MarkOver source
+ */
+export function importFile(name: string, text: string): MarkOverImportResult {
+  const extension = name.toLowerCase().split(".").pop();
+  if (extension === "html" || extension === "htm") return importHtml(text);
+  if (extension === "md" || extension === "markdown") {
+    return importMarkdown(text);
+  }
+  return { source: text.replace(/\r\n?/g, "\n"), diagnostics: [] };
+}
+
+/**
+ * Whether pasted HTML carries document structure worth converting
+ * Code editors put styled `<div>`/`<span>` runs on the clipboard; those are
+ * better pasted as plain text
+ */
+export function isRichHtml(html: string): boolean {
+  return RICH_HTML_REGEX.test(html);
+}
+
+/**
+ * Convert Markdown to MarkOver
+ * `<div class>`, `<section class>` and other wrappers on lines of their own
+ * and the comments written by Markdown export become blocks again;
+ * MarkOver syntax that would otherwise change the meaning of the text is
+ * escaped
+ */
+export function importMarkdown(markdown: string): MarkOverImportResult {
+  const notes: ImportNote[] = [];
+  // Open wrappers and whether each became an Angle Block
+  const wrappers: { tag: string; converted: boolean }[] = [];
+  let fence: string | null = null;
+  // Whether the previous line was paragraph text, which indented code
+  // cannot interrupt
+  let paragraph = false;
+  let list = false;
+  let afterBlank = true;
+
+  const lines = markdown
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+      if (fence) {
+        if (
+          fenceMatch &&
+          fenceMatch[1][0] === fence[0] &&
+          fenceMatch[1].length >= fence.length &&
+          !line.trim().slice(fenceMatch[1].length).trim()
+        ) {
+          fence = null;
+        }
+        return line;
+      }
+
+      if (!line.trim()) {
+        paragraph = false;
+        afterBlank = true;
+        return line;
+      }
+      const indented = INDENTED_CODE_REGEX.test(line);
+      if (!indented) {
+        if (LIST_ITEM_REGEX.test(line)) list = true;
+        else if (afterBlank) list = false;
+      }
+      afterBlank = false;
+      // Indented code is copied verbatim
+      if (indented && !paragraph && !list) return line;
+
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        paragraph = false;
+        return line;
+      }
+      paragraph = !NON_PARAGRAPH_REGEX.test(line);
+
+      const exported = /^<!-- ((?:<>['"]|<\/>|:::).*) -->\s*$/.exec(line);
+      if (exported) return exported[1];
+
+      const wrapperOpen = /^<([a-z]+)(\s[^>]*)?>\s*$/i.exec(line);
+      const wrapperTag = wrapperOpen?.[1].toUpperCase();
+      if (wrapperOpen && wrapperTag && MARKDOWN_WRAPPER_TAGS.has(wrapperTag)) {
+        const tag = wrapperTag === "CENTER" ? "div" : wrapperTag.toLowerCase();
+        const attributes = parseHtmlAttributes(wrapperOpen[2] ?? "");
+        const classes = (
+          attributes.find(([name]) => name === "class")?.[1] ?? ""
+        )
+          .split(/\s+/)
+          .filter(Boolean);
+        wrappers.push({
+          tag: wrapperTag.toLowerCase(),
+          converted: classes.length > 0,
+        });
+        if (!classes.length) return line;
+
+        let prefix = "";
+        const kept = attributes.filter(([name, value]) => {
+          if (name === "class") return false;
+          if (isAngleAttribute(name, value)) return true;
+          prefix += note(
+            notes,
+            "warning",
+            "unsupported-html",
+            `Attribute "${name}" on <${tag}> has no Angle Block equivalent and was left out`
+          );
+          return false;
+        });
+        return prefix + formatAngleOpener(classes, kept, tag, notes);
+      }
+      const wrapperClose = /^<\/([a-z]+)>\s*$/i.exec(line);
+      const open = wrappers[wrappers.length - 1];
+      if (wrapperClose && open?.tag === wrapperClose[1].toLowerCase()) {
+        wrappers.pop();
+        return open.converted ? "</>" : line;
+      }
+
+      return escapeMarkOverSyntax(line, notes);
+    });
+
+  return finishImport(lines.join("\n"), notes);
+}
+
+/**
+ * Convert an HTML document or fragment to MarkOver
+ * A document `<title>` becomes the front matter title
+ */
+export function importHtml(html: string): MarkOverImportResult {
+  const parsed = new DOMParser().parseFromString(html, "text/html");
+  const notes: ImportNote[] = [];
+  const blocks = convertBlocks(Array.from(parsed.body.childNodes), notes);
+
+  const title = parsed.title.trim();
+  if (title) {
+    // Front matter values only lose their outer quotes
+    blocks.unshift(`---\ntitle: "${title}"\n---`);
+  }
+  return finishImport(blocks.join("\n\n"), notes);
+}
+
+/**
+ * Record a note and return the marker that places it in the output
+ */
+function note(
+  notes: ImportNote[],
+  severity: MarkOverDiagnosticSeverity,
+  code: MarkOverDiagnosticCode,
+  message: string
+): string {
+  notes.push({ severity, code, message });
+  return `\u0000${notes.length - 1}\u0000`;
+}
+
+/**
+ * Remove the note markers and turn them into diagnostics that cover the
+ * rest of the line they ended up on
+ */
+function finishImport(
+  output: string,
+  notes: ImportNote[]
+): MarkOverImportResult {
+  const offsets: number[] = [];
+  let source = "";
+  let last = 0;
+  for (const match of output.matchAll(NOTE_MARKER_REGEX)) {
+    source += output.substring(last, match.index);
+    offsets[Number(match[1])] = source.length;
+    last = match.index + match[0].length;
+  }
+  source += output.substring(last);
+  // Only whole blank lines are trimmed, so leading indented code keeps its
+  // indent
+  const leading = /^(?:[ \t]*\n)*/.exec(source)![0].length;
+  source = `${source.slice(leading).trimEnd()}\n`;
+
+  const pointAt = createPointLookup(source);
+  const diagnostics = notes.map((entry, index): MarkOverDiagnostic => {
+    const start = Math.min(
+      Math.max((offsets[index] ?? 0) - leading, 0),
+      source.length - 1
+    );
+    const lineEnd = source.indexOf("\n", start);
+    return {
+      ...entry,
+      position: {
+        start: pointAt(start),
+        end: pointAt(lineEnd === -1 ? source.length : lineEnd),
+      },
+    };
+  });
+  diagnostics.sort((a, b) => a.position.start.offset - b.position.start.offset);
+  return { source, diagnostics };
+}
+
+/**
+ * Convert a run of sibling nodes to Markdown blocks
+ * Consecutive inline nodes form a paragraph
+ */
+function convertBlocks(nodes: Node[], notes: ImportNote[]): string[] {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+  const flush = () => {
+    const text = convertInline(inline, notes).trim();
+    if (text) blocks.push(escapeLineStarts(text));
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node instanceof Element && BLOCK_TAGS.has(node.tagName)) {
+      flush();
+      blocks.push(...convertBlock(node, notes));
+    } else {
+      inline.push(node);
+    }
+  }
+  flush();
+
+  // Blocks that are only note markers join the next block
+  const merged: string[] = [];
+  let pending = "";
+  for (const block of blocks) {
+    if (!block.replace(NOTE_MARKER_REGEX, "").trim()) {
+      pending += block;
+    } else {
+      merged.push(pending + block);
+      pending = "";
+    }
+  }
+  if (pending) {
+    if (merged.length) merged[merged.length - 1] += pending;
+    else merged.push(pending);
+  }
+  return merged;
+}
+
+function convertBlock(element: Element, notes: ImportNote[]): string[] {
+  const tag = element.tagName;
+  if (DROPPED_TAGS.has(tag)) {
+    return [
+      note(
+        notes,
+        "warning",
+        "dropped-content",
+        `<${tag.toLowerCase()}> has no MarkOver equivalent and was removed`
+      ),
+    ];
+  }
+
+  const classes = getClasses(element);
+  if (CONTAINER_TAGS.has(tag)) {
+    const children = convertBlocks(Array.from(element.childNodes), notes);
+    if (!classes.length) return children;
+    const opener = formatAngleOpener(
+      classes,
+      getAngleAttributes(element),
+      ["DIV", "CENTER"].includes(tag) ? "div" : tag.toLowerCase(),
+      notes
+    );
+    return [[opener, ...children].join("\n\n") + "\n\n</>"];
+  }
+
+  const blocks = convertPlainBlock(element, notes);
+  if (!classes.length || tag === "PRE") return blocks;
+  // Markdown can't carry classes on its own blocks
+  const opener = formatAngleOpener(classes, [], "div", notes);
+  return [
+    note(
+      notes,
+      "info",
+      "unsupported-html",
+      `Classes on <${tag.toLowerCase()}> were moved to a wrapping Angle Block`
+    ) + [opener, ...blocks, "</>"].join("\n\n"),
+  ];
+}
+
+/**
+ * Block elements with a Markdown equivalent
+ */
+function convertPlainBlock(element: Element, notes: ImportNote[]): string[] {
+  const tag = element.tagName;
+  switch (tag) {
+    case "P":
+      return convertBlocks(Array.from(element.childNodes), notes);
+    case "H1":
+    case "H2":
+    case "H3":
+    case "H4":
+    case "H5":
+    case "H6": {
+      const text = convertInline(Array.from(element.childNodes), notes)
+        .replace(/\\\n/g, " ")
+        .trim();
+      return text ? [`${"#".repeat(Number(tag[1]))} ${text}`] : [];
+    }
+    case "UL":
+    case "OL":
+      return [convertList(element, notes)];
+    case "LI":
+      return convertBlocks(Array.from(element.childNodes), notes);
+    case "BLOCKQUOTE": {
+      const content = convertBlocks(Array.from(element.childNodes), notes);
+      return [
+        content
+          .join("\n\n")
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n"),
+      ];
+    }
+    case "PRE":
+      return [convertCodeBlock(element)];
+    case "HR":
+      return ["---"];
+    case "TABLE":
+      return [convertTable(element as HTMLTableElement, notes)];
+    case "DL":
+      return [
+        note(
+          notes,
+          "info",
+          "unsupported-html",
+          "Definition list was converted to paragraphs"
+        ),
+        ...Array.from(element.children).flatMap((child) => {
+          const content = convertBlocks(Array.from(child.childNodes), notes);
+          return child.tagName === "DT"
+            ? content.map((block) => `**${block}**`)
+            : content;
+        }),
+      ];
+    default:
+      return [
+        note(
+          notes,
+          "info",
+          "unsupported-html",
+          `<${tag.toLowerCase()}> was unwrapped`
+        ),
+        ...convertBlocks(Array.from(element.childNodes), notes),
+      ];
+  }
+}
+
+function convertList(list: Element, notes: ImportNote[]): string {
+  const ordered = list.tagName === "OL";
+  let number = Number(list.getAttribute("start") ?? 1) || 1;
+  const items = Array.from(list.children);
+  const loose = items.some((item) =>
+    Array.from(item.children).some((child) => child.tagName === "P")
+  );
+
+  return items
+    .map((item) => {
+      let task = "";
+      const checkbox = item.querySelector(':scope > input[type="checkbox"]');
+      if (checkbox) {
+        task = checkbox.hasAttribute("checked") ? "[x] " : "[ ] ";
+        checkbox.remove();
+      }
+
+      const marker = ordered ? `${number++}. ` : "- ";
+      const content = convertBlocks(Array.from(item.childNodes), notes).join(
+        loose ? "\n\n" : "\n"
+      );
+      return (marker + task + content)
+        .split("\n")
+        .map((line, index) =>
+          index && line ? " ".repeat(marker.length) + line : line
+        )
+        .join("\n");
+    })
+    .join(loose ? "\n\n" : "\n");
+}
+
+function convertCodeBlock(pre: Element): string {
+  const code = pre.textContent?.replace(/\n$/, "") ?? "";
+  const languageSource = [pre.querySelector("code"), pre]
+    .map((element) => element?.getAttribute("class") ?? "")
+    .join(" ");
+  const language =
+    /\b(?:language|lang)-([\w+#-]+)/.exec(languageSource)?.[1] ?? "";
+
+  const longestRun = Math.max(
+    2,
+    ...(code.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+/**
+ * GFM table, or the table as raw HTML when it has merged cells or block
+ * content a GFM cell can't hold
+ */
+function convertTable(table: HTMLTableElement, notes: ImportNote[]): string {
+  const rows = Array.from(table.rows);
+  const complex = rows.some((row) =>
+    Array.from(row.cells).some(
+      (cell) =>
+        cell.colSpan > 1 ||
+        cell.rowSpan > 1 ||
+        cell.querySelector("ul, ol, table, pre, blockquote, h1, h2, h3, p + p")
+    )
+  );
+  if (complex || !rows.length) {
+    return (
+      note(
+        notes,
+        "warning",
+        "unsupported-html",
+        "Table with merged cells or block content was kept as HTML"
+      ) + table.outerHTML.replace(/\n\s*\n/g, "\n")
+    );
+  }
+
+  const columnCount = Math.max(...rows.map((row) => row.cells.length));
+  const renderRow = (row: HTMLTableRowElement) => {
+    const cells = Array.from(row.cells).map((cell) =>
+      convertInline(Array.from(cell.childNodes), notes)
+        .trim()
+        .replace(/\\\n/g, "<br>")
+        .replace(/\|/g, "\\|")
+    );
+    while (cells.length < columnCount) cells.push("");
+    return `| ${cells.join(" | ")} |`;
+  };
+  const alignments = Array.from(rows[0].cells).map((cell) => {
+    const align = (
+      cell.getAttribute("align") ?? (cell as HTMLElement).style.textAlign
+    ).toLowerCase();
+    return align === "center" ? ":---:" : align === "right" ? "---:" : "---";
+  });
+  while (alignments.length < columnCount) alignments.push("---");
+
+  return [
+    renderRow(rows[0]),
+    `| ${alignments.join(" | ")} |`,
+    ...rows.slice(1).map(renderRow),
+  ].join("\n");
+}
+
+/**
+ * Convert inline content to Markdown
+ * Whitespace collapses as it does in HTML; block elements inside inline
+ * content are flattened
+ */
+function convertInline(nodes: Node[], notes: ImportNote[]): string {
+  return nodes
+    .map((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return escapeMarkdown((node.textContent ?? "").replace(/\s+/g, " "));
+      }
+      if (!(node instanceof Element)) return "";
+
+      const tag = node.tagName;
+      if (DROPPED_TAGS.has(tag)) {
+        return note(
+          notes,
+          "warning",
+          "dropped-content",
+          `<${tag.toLowerCase()}> has no MarkOver equivalent and was removed`
+        );
+      }
+
+      const inline = convertInlineElement(node, notes);
+      const classes = getClasses(node);
+      if (!classes.length || INLINE_HTML_TAGS.has(tag) || !inline.trim()) {
+        return inline;
+      }
+      return `${formatClassList(classes)}[${inline}]`;
+    })
+    .join("")
+    .replace(/ *\\\n */g, "\\\n");
+}
+
+function convertInlineElement(element: Element, notes: ImportNote[]): string {
+  const content = () => convertInline(Array.from(element.childNodes), notes);
+  const tag = element.tagName;
+
+  switch (tag) {
+    case "STRONG":
+    case "B":
+      return delimit(content(), "**");
+    case "EM":
+    case "I":
+      return delimit(content(), "*");
+    case "DEL":
+    case "S":
+    case "STRIKE":
+      return delimit(content(), "~~");
+    case "CODE": {
+      const code = element.textContent ?? "";
+      const longestRun = Math.max(
+        0,
+        ...(code.match(/`+/g) ?? []).map((run) => run.length)
+      );
+      const ticks = "`".repeat(longestRun + 1);
+      const padding = /^`|`$/.test(code) ? " " : "";
+      return `${ticks}${padding}${code}${padding}${ticks}`;
+    }
+    case "A": {
+      const href = element.getAttribute("href");
+      const text = content();
+      if (!href) return text;
+      return `[${text}](${formatUrl(href)}${formatTitle(element)})`;
+    }
+    case "IMG": {
+      const src = element.getAttribute("src");
+      if (!src) return "";
+      const alt = escapeMarkdown(element.getAttribute("alt") ?? "");
+      return `![${alt}](${formatUrl(src)}${formatTitle(element)})`;
+    }
+    case "BR":
+      return "\\\n";
+    default: {
+      if (INLINE_HTML_TAGS.has(tag)) {
+        const name = tag.toLowerCase();
+        const classes = getClasses(element);
+        const classAttribute = classes.length
+          ? ` class="${classes.join(" ")}"`
+          : "";
+        return `<${name}${classAttribute}>${content()}</${name}>`;
+      }
+      return content();
+    }
+  }
+}
+
+/**
+ * Wrap text in emphasis delimiters, keeping surrounding spaces outside
+ */
+function delimit(text: string, delimiter: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  return match[2]
+    ? `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`
+    : text;
+}
+
+function formatUrl(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURI)}>` : url;
+}
+
+function formatTitle(element: Element): string {
+  const title = element.getAttribute("title");
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+}
+
+/**
+ * Escape characters Markdown or MarkOver would read as syntax
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<~]/g, "\\$&").replace(/&(?=#?\w+;)/g, "\\&");
+}
+
+/**
+ * Escape line starts that would turn a paragraph into another block
+ */
+function escapeLineStarts(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => {
+      const marker =
+        /^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s|$)|={2,}\s*$|-{2,}\s*$|:::)/.exec(
+          line
+        );
+      if (marker) {
+        return `${marker[1]}\\${line.substring(marker[1].length)}`;
+      }
+      const ordered = /^(\s*\d{1,9})([.)])(?=\s|$)/.exec(line);
+      if (ordered) {
+        return `${ordered[1]}\\${line.substring(ordered[1].length)}`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Escape MarkOver openers and closers in Markdown text so they stay text,
+ * leaving inline code alone
+ */
+function escapeMarkOverSyntax(line: string, notes: ImportNote[]): string {
+  let escaped = false;
+  const result = line
+    .split(/(`+[^`]*?`+)/)
+    .map((part, index) => {
+      // Odd parts are inline code
+      if (index % 2) return part;
+      return part.replace(/(^|[^\\])(<>['"]|<\/>)/g, (_, before, syntax) => {
+        escaped = true;
+        return `${before}\\${syntax}`;
+      });
+    })
+    .join("")
+    .replace(/^( {0,3}):::/, (_, indent) => {
+      escaped = true;
+      return `${indent}\\:::`;
+    });
+
+  return escaped
+    ? note(
+        notes,
+        "info",
+        "unsupported-html",
+        "MarkOver syntax in the Markdown was escaped to stay text"
+      ) + result
+    : result;
+}
+
+function getClasses(element: Element): string[] {
+  return (element.getAttribute("class") ?? "").split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Attributes an Angle Block can carry: id, style, title, data-*...
+ */
+function getAngleAttributes(element: Element): [string, string][] {
+  return Array.from(element.attributes)
+    .filter(({ name, value }) => isAngleAttribute(name, value))
+    .map(({ name, value }) => [name, value]);
+}
+
+function isAngleAttribute(name: string, value: string): boolean {
+  return (
+    (name === "id" && /^[A-Za-z][\w:.-]*$/.test(value)) ||
+    ANGLE_ATTRIBUTE_REGEX.test(name)
+  );
+}
+
+/**
+ * Quoted class list; double quotes when a class contains a single quote
+ */
+function formatClassList(classes: string[]): string {
+  const list = classes.join(" ");
+  return list.includes("'") ? `<>"${list}"` : `<>'${list}'`;
+}
+
+function formatAngleOpener(
+  classes: string[],
+  attributes: [string, string][],
+  tag: string,
+  notes: ImportNote[]
+): string {
+  const entries: string[] = tag === "div" ? [] : [`tag=${tag}`];
+  let prefix = "";
+  for (const [name, value] of attributes) {
+    if (name === "id") {
+      entries.push(`#${value}`);
+    } else if (!value.includes('"')) {
+      entries.push(`${name}="${value}"`);
+    } else if (!value.includes("'")) {
+      entries.push(`${name}='${value}'`);
+    } else {
+      prefix += note(
+        notes,
+        "warning",
+        "unsupported-html",
+        `Attribute "${name}" mixes quote characters and was left out`
+      );
+    }
+  }
+  const attributeList = entries.length ? ` {${entries.join(" ")}}` : "";
+  return `${prefix}${formatClassList(classes)}${attributeList}`;
+}
+
+/**
+ * Attributes of an HTML start tag written in Markdown, with lowercase
+ * names and decoded values
+ */
+function parseHtmlAttributes(source: string): [string, string][] {
+  const attributes: [string, string][] = [];
+  for (const match of source.matchAll(
+    /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+  )) {
+    const name = match[1].toLowerCase();
+    if (attributes.some(([seen]) => seen === name)) continue;
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes.push([
+      name,
+      value.replace(/&(#\d+|#x[\da-f]+|amp|quot|apos|lt|gt);/gi, decodeEntity),
+    ]);
+  }
+  return attributes;
+}
+
+function decodeEntity(entity: string, code: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    quot: '"',
+    apos: "'",
+    lt: "<",
+    gt: ">",
+  };
+  const lower = code.toLowerCase();
+  if (!lower.startsWith("#")) return named[lower];
+  const point = lower.startsWith("#x")
+    ? parseInt(lower.slice(2), 16)
+    : parseInt(lower.slice(1), 10);
+  return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+}
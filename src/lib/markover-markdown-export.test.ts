@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  exportMarkdown,
+  type MarkdownExportOptions,
+} from "./markover-markdown-export";
+import { MarkOverParser } from "./markover-parser";
+
+const parser = new MarkOverParser();
+const markdown = (text: string, options?: MarkdownExportOptions) =>
+  exportMarkdown(parser, text, options).markdown;
+
+describe("exportMarkdown", () => {
+  it("drops blocks and turns spans into their text", () => {
+    expect(
+      markdown("<>'p-4'\n# Hi\n<>'text-red-500'[red] `<>'x'[y]`\n</>")
+    ).toBe("# Hi\nred `<>'x'[y]`\n");
+  });
+
+  it("keeps lists from different blocks apart", () => {
+    expect(markdown("<>'a'\n- one\n</>\n<>'b'\n- two\n</>")).toBe(
+      "- one\n\n<!-- -->\n\n- two\n"
+    );
+  });
+
+  it("reports directives it leaves out", () => {
+    const result = exportMarkdown(parser, "a\n\n:::page-break\n\nb");
+    expect(result.markdown).toBe("a\n\nb\n");
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "dropped-content",
+    ]);
+  });
+
+  it("keeps blocks and directives as comments", () => {
+    expect(
+      markdown("<>'p-4' {#a}\nx\n</>\n\n:::page-break", { classes: "comment" })
+    ).toBe(
+      "<!-- <>'p-4' {#a} -->\n\nx\n\n<!-- </> -->\n\n<!-- :::page-break -->\n"
+    );
+  });
+
+  it("writes blocks and spans as HTML", () => {
+    expect(
+      markdown("<>'a' {tag=aside}\n<>'b'[x]\n</>", { classes: "html" })
+    ).toBe('<aside class="a">\n\n<span class="b">x</span>\n\n</aside>\n');
+  });
+
+  it("leaves out the front matter unless asked", () => {
+    const text = "---\ntitle: T\n---\nbody";
+    expect(markdown(text)).toBe("body\n");
+    expect(markdown(text, { frontMatter: true })).toBe(
+      "---\ntitle: T\n---\n\nbody\n"
+    );
+  });
+
+  it("keeps text around a stray </> on one line", () => {
+    expect(markdown("stray </> x")).toBe("stray  x\n");
+  });
+});
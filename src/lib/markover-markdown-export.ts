@@ -0,0 +1,278 @@
+/**
+ * Markdown export
+ *
+ * Downgrades a `.mo` document to portable CommonMark that renders sensibly
+ * on GitHub. Blocks are unwrapped with their content kept in order; their
+ * classes can be dropped, kept as HTML comments or kept as raw HTML
+ * wrappers. Works on the AST, so code is copied verbatim.
+ */
+
+import type {
+  AngleBlockNode,
+  CustomBlockNode,
+  FlexBlockNode,
+  MarkOverNode,
+} from "./markover-ast";
+import type { MarkOverDiagnostic } from "./markover-diagnostics";
+import type { MarkOverParser } from "./markover-parser";
+import { escapeAttribute } from "./markover-sanitizer";
+import { matchAngleOpener, matchSpanText } from "./markover-syntax";
+
+/**
+ * What happens to block classes:
+ * - `drop`: blocks are unwrapped, only their content is kept
+ * - `comment`: the MarkOver opener and closer are kept as HTML comments
+ * - `html`: blocks become raw `<div>`s (or their tag) with their classes
+ */
+export type MarkdownClassMode = "drop" | "comment" | "html";
+
+export interface MarkdownExportOptions {
+  /** Default: `drop` */
+  classes?: MarkdownClassMode;
+  /** Keep the front matter block (default: false) */
+  frontMatter?: boolean;
+}
+
+export interface MarkdownExportResult {
+  markdown: string;
+  /** Parse problems, plus content that has no Markdown equivalent */
+  diagnostics: MarkOverDiagnostic[];
+}
+
+const LIST_ITEM_REGEX = /^ {0,3}([-+*]|\d{1,9}[.)])(\s|$)/;
+
+/**
+ * Export MarkOver source as CommonMark
+ * `parser` supplies the registered block types
+ */
+export function exportMarkdown(
+  parser: MarkOverParser,
+  text: string,
+  { classes = "drop", frontMatter = false }: MarkdownExportOptions = {}
+): MarkdownExportResult {
+  const diagnostics: MarkOverDiagnostic[] = [];
+  const ast = parser.parseToAst(text, diagnostics);
+
+  const renderNodes = (nodes: MarkOverNode[]): string[] =>
+    nodes.flatMap((node): string[] => {
+      switch (node.type) {
+        case "markdown": {
+          const markdown = downgradeSpans(node.value, classes)
+            .replace(/^([ \t]*\n)+/, "")
+            .trimEnd();
+          return markdown ? [markdown] : [];
+        }
+        case "code":
+          return [node.raw];
+        case "angleBlock":
+          return wrap(renderAngleBlock(node), renderNodes(node.children));
+        case "flexBlock":
+          return wrap(renderFlexBlock(node), renderNodes(node.children));
+        case "customBlock":
+          return renderCustomBlock(node, renderNodes(node.children));
+      }
+    });
+
+  const renderAngleBlock = (node: AngleBlockNode): Wrapper | null => {
+    if (classes === "comment") {
+      return {
+        open: comment(
+          `<>'${node.classes.join(" ")}'${formatAttributeList(node)}`
+        ),
+        close: comment("</>"),
+      };
+    }
+    if (classes === "html" && (node.classes.length || node.tag !== "div")) {
+      const attributes = Object.entries({
+        ...(node.classes.length ? { class: node.classes.join(" ") } : {}),
+        ...node.attributes,
+      })
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join("");
+      return { open: `<${node.tag}${attributes}>`, close: `</${node.tag}>` };
+    }
+    return null;
+  };
+
+  const renderFlexBlock = (node: FlexBlockNode): Wrapper | null => {
+    if (classes === "comment") {
+      const properties = Object.entries(node.properties)
+        .map(([key, value]) => ` ${key}=${value}`)
+        .join("");
+      return { open: comment(`:::flex${properties}`), close: comment(":::") };
+    }
+    if (classes === "html") {
+      return {
+        open: parser.renderFlexOpeningTag(node.properties),
+        close: "</div>",
+      };
+    }
+    return null;
+  };
+
+  // Plugin blocks have no classes of their own; openers are kept as
+  // comments in both comment and html mode
+  const renderCustomBlock = (
+    node: CustomBlockNode,
+    children: string[]
+  ): string[] => {
+    const isLeaf = !node.children.length;
+    if (classes === "drop") {
+      if (isLeaf) {
+        diagnostics.push({
+          severity: "info",
+          code: "dropped-content",
+          message: `":::${node.name}" has no Markdown equivalent and was left out`,
+          position: node.position,
+        });
+      }
+      return children;
+    }
+
+    const properties = Object.entries(node.properties)
+      .map(([key, value]) => (value ? `${key}=${quote(value)}` : key))
+      .join(" ");
+    const opener = `${node.syntax === "angle" ? "<>" : ":::"}${node.name}${
+      properties ? ` {${properties}}` : ""
+    }`;
+    if (isLeaf) return [comment(opener)];
+    return wrap(
+      {
+        open: comment(opener),
+        close: comment(node.syntax === "angle" ? "</>" : ":::"),
+      },
+      children
+    );
+  };
+
+  const segments = renderNodes(ast.children);
+  if (frontMatter && ast.frontMatter) {
+    segments.unshift(
+      text.substring(0, ast.frontMatter.position.end.offset).trimEnd()
+    );
+  }
+
+  diagnostics.sort((a, b) => a.position.start.offset - b.position.start.offset);
+  return { markdown: joinSegments(segments), diagnostics };
+}
+
+interface Wrapper {
+  open: string;
+  close: string;
+}
+
+function wrap(wrapper: Wrapper | null, children: string[]): string[] {
+  return wrapper ? [wrapper.open, ...children, wrapper.close] : children;
+}
+
+/**
+ * HTML comment that can't be ended early by its content
+ */
+function comment(text: string): string {
+  return `<!-- ${text.replace(/--!?>/g, "-- >")} -->`;
+}
+
+function quote(value: string): string {
+  return /^[^\s"'{}=]+$/.test(value) ? value : `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Angle Block attribute list (`{#id tag=section data-x=y}`), or nothing
+ */
+function formatAttributeList({ tag, attributes }: AngleBlockNode): string {
+  const entries = Object.entries(attributes).map(([name, value]) =>
+    name === "id" ? `#${value}` : `${name}=${quote(value)}`
+  );
+  if (tag !== "div") entries.unshift(`tag=${tag}`);
+  return entries.length ? ` {${entries.join(" ")}}` : "";
+}
+
+/**
+ * Replace inline Angle spans with their text, or with a `<span>` in html
+ * mode. Backslash escapes and inline code are copied as they are
+ */
+function downgradeSpans(text: string, classes: MarkdownClassMode): string {
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\") {
+      result += text.substring(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (char === "`") {
+      const end = findInlineCodeEnd(text, i);
+      result += text.substring(i, end);
+      i = end;
+      continue;
+    }
+
+    const opener = char === "<" ? matchAngleOpener(text, i) : null;
+    const end = opener ? matchSpanText(text, opener.end) : -1;
+    if (opener && end !== -1) {
+      const content = downgradeSpans(
+        text.substring(opener.end + 1, end - 1),
+        classes
+      );
+      result +=
+        classes === "html" && opener.classes.length
+          ? `<span class="${escapeAttribute(opener.classes.join(" "))}">${content}</span>`
+          : content;
+      i = end;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Index after the inline code span starting at `index`, or after the
+ * backtick run when it is never closed
+ */
+function findInlineCodeEnd(text: string, index: number): number {
+  let runEnd = index;
+  while (text[runEnd] === "`") runEnd++;
+  const length = runEnd - index;
+
+  for (let i = runEnd; i < text.length;) {
+    if (text[i] !== "`") {
+      i++;
+      continue;
+    }
+    let closeEnd = i;
+    while (text[closeEnd] === "`") closeEnd++;
+    if (closeEnd - i === length) return closeEnd;
+    i = closeEnd;
+  }
+  return runEnd;
+}
+
+/**
+ * Join segments with blank lines, as MarkOver renders each run on its own
+ * A list, or indented text, right after a list would join that list in
+ * plain Markdown; an empty comment keeps them apart
+ */
+function joinSegments(segments: string[]): string {
+  const parts: string[] = [];
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1];
+    if (previous !== undefined) {
+      const lastLine = previous.substring(previous.lastIndexOf("\n") + 1);
+      const inList = LIST_ITEM_REGEX.test(lastLine) || /^\s/.test(lastLine);
+      const firstLine = segment.split("\n", 1)[0];
+      if (
+        inList &&
+        (LIST_ITEM_REGEX.test(firstLine) || /^\s/.test(firstLine))
+      ) {
+        parts.push("<!-- -->");
+      }
+    }
+    parts.push(segment);
+  });
+  return parts.length ? `${parts.join("\n\n")}\n` : "";
+}
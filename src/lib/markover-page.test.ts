@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { resolvePageLayout, toPixels } from "./markover-page";
+import { MarkOverParser } from "./markover-parser";
+
+describe("toPixels", () => {
+  it.each([
+    ["1in", 96],
+    ["72pt", 96],
+    ["2.54cm", 96],
+    ["25.4mm", 96],
+    [" 32px ", 32],
+    [".5in", 48],
+    ["1IN", 96],
+    [12, 12],
+  ])("converts %j", (length, pixels) => {
+    expect(toPixels(length)).toBeCloseTo(pixels);
+  });
+
+  it.each(["0", "0.0", ".0", " 00 ", "0mm"])("reads %j as zero", (length) => {
+    expect(toPixels(length)).toBe(0);
+  });
+
+  it.each(["", "12", "-1mm", "1em", "mm", "0.5"])("rejects %j", (length) => {
+    expect(toPixels(length)).toBeNaN();
+  });
+});
+
+describe("resolvePageLayout", () => {
+  it("defaults to portrait A4 with 32px margins", () => {
+    const layout = resolvePageLayout();
+    expect(layout.width).toBeCloseTo(793.7, 1);
+    expect(layout.height).toBeCloseTo(1122.5, 1);
+    expect(layout.margins).toEqual({
+      top: 32,
+      right: 32,
+      bottom: 32,
+      left: 32,
+    });
+  });
+
+  it("swaps the sides in landscape", () => {
+    expect(
+      resolvePageLayout({ size: "Letter", orientation: "landscape" })
+    ).toMatchObject({ width: 1056, height: 816 });
+  });
+
+  it("accepts zero margins without a unit", () => {
+    expect(resolvePageLayout({ margins: "0" }).margins).toEqual({
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+    });
+    expect(
+      resolvePageLayout({ margins: { top: 0, left: "1in" } }).margins
+    ).toEqual({ top: 0, right: 32, bottom: 32, left: 96 });
+  });
+
+  it("falls back to the defaults for bad values", () => {
+    const layout = resolvePageLayout({
+      size: { width: "0", height: "9in" },
+      margins: "wide",
+    });
+    expect(layout.width).toBeCloseTo(793.7, 1);
+    expect(layout.margins.top).toBe(32);
+  });
+});
+
+describe("page front matter", () => {
+  const parser = new MarkOverParser();
+  const parse = (frontMatter: string, page = {}) =>
+    parser.parse(`---\n${frontMatter}\n---\n# Title`, {
+      mode: "paged",
+      zoom: 100,
+      page,
+    });
+
+  it("reads page-size, orientation and margins", () => {
+    const result = parse(
+      "page-size: letter\norientation: landscape\nmargins: 1in 20mm"
+    );
+    expect(result.page).toEqual({
+      size: "Letter",
+      orientation: "landscape",
+      margins: { top: "1in", right: "20mm", bottom: "1in", left: "20mm" },
+    });
+    expect(result.layout.width).toBe(1056);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("accepts margins: 0", () => {
+    const result = parse("margins: 0");
+    expect(result.diagnostics).toEqual([]);
+    expect(result.layout.margins).toEqual({
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+    });
+  });
+
+  it("reports values it can't use", () => {
+    const result = parse("page-size: 0 9in\norientation: up\nmargins: 1in x");
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "invalid-property",
+      "invalid-property",
+      "invalid-property",
+    ]);
+    expect(result.page).toEqual({});
+  });
+
+  it("lets options override the front matter", () => {
+    const result = parse("page-size: letter\nmargins: 1in", { size: "A5" });
+    expect(result.page).toMatchObject({ size: "A5", margins: { top: "1in" } });
+  });
+});
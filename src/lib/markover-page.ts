@@ -0,0 +1,124 @@
+/**
+ * Page setup shared by the paged preview, the paginator and export
+ *
+ * Settings use print units (mm, cm, in, pt); everything is resolved to CSS
+ * pixels at 96 DPI, the unit browsers lay pages out in.
+ */
+
+export type PageSizeName = "A4" | "A5" | "Letter" | "Legal";
+
+/**
+ * A length with its unit (`"20mm"`, `"1in"`, `"0.5cm"`, `"12pt"`, `"32px"`),
+ * `"0"` or a number of CSS pixels
+ */
+export type PageLength = string | number;
+
+export interface PageMargins {
+  top: PageLength;
+  right: PageLength;
+  bottom: PageLength;
+  left: PageLength;
+}
+
+export interface PageSettings {
+  /** Named paper size or custom dimensions, given in portrait (default: A4) */
+  size?: PageSizeName | { width: PageLength; height: PageLength };
+  orientation?: "portrait" | "landscape";
+  /** One length for every side, or per side (default: 32px on every side) */
+  margins?: PageLength | Partial<PageMargins>;
+}
+
+/**
+ * Resolved page geometry in CSS pixels
+ */
+export interface PageLayout {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+}
+
+// Portrait paper sizes
+export const PAGE_SIZES: Record<
+  PageSizeName,
+  { width: PageLength; height: PageLength }
+> = {
+  A4: { width: "210mm", height: "297mm" },
+  A5: { width: "148mm", height: "210mm" },
+  Letter: { width: "8.5in", height: "11in" },
+  Legal: { width: "8.5in", height: "14in" },
+};
+
+const DEFAULT_MARGIN = 32;
+
+const PIXELS_PER_UNIT: Record<string, number> = {
+  px: 1,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  pt: 96 / 72,
+};
+
+/**
+ * Convert a page length to CSS pixels
+ * Only zero may leave out the unit. Returns NaN for lengths that can't be
+ * parsed
+ */
+export function toPixels(length: PageLength): number {
+  if (typeof length === "number") return length;
+
+  const match =
+    /^\s*(?:(\d+(?:\.\d+)?|\.\d+)\s*(px|in|cm|mm|pt)|0*\.?0+)\s*$/i.exec(
+      length
+    );
+  if (!match) return NaN;
+  if (!match[2]) return 0;
+  return parseFloat(match[1]) * PIXELS_PER_UNIT[match[2].toLowerCase()];
+}
+
+/**
+ * Resolve page settings to pixel geometry
+ * Missing or unparseable values fall back to the defaults
+ */
+export function resolvePageLayout(settings: PageSettings = {}): PageLayout {
+  const size =
+    typeof settings.size === "object"
+      ? settings.size
+      : (PAGE_SIZES[settings.size ?? "A4"] ?? PAGE_SIZES.A4);
+
+  let width = toPixels(size.width);
+  let height = toPixels(size.height);
+  if (!(width > 0 && height > 0)) {
+    width = toPixels(PAGE_SIZES.A4.width);
+    height = toPixels(PAGE_SIZES.A4.height);
+  }
+  if (settings.orientation === "landscape") {
+    [width, height] = [height, width];
+  }
+
+  const margins =
+    typeof settings.margins === "object"
+      ? settings.margins
+      : {
+          top: settings.margins,
+          right: settings.margins,
+          bottom: settings.margins,
+          left: settings.margins,
+        };
+  const margin = (value: PageLength | undefined) => {
+    const pixels = value === undefined ? NaN : toPixels(value);
+    return pixels >= 0 ? pixels : DEFAULT_MARGIN;
+  };
+
+  return {
+    width,
+    height,
+    margins: {
+      top: margin(margins.top),
+      right: margin(margins.right),
+      bottom: margin(margins.bottom),
+      left: margin(margins.left),
+    },
+  };
+}
+
+export const DEFAULT_PAGE_LAYOUT = resolvePageLayout();
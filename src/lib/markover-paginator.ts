@@ -0,0 +1,487 @@
+/**
+ * DOM-measured pagination for the paged view
+ *
+ * Rendered HTML is laid out off screen at the page's content width, with
+ * the same stylesheets as the preview, and split between block elements
+ * using their real heights. Browser only.
+ */
+
+import { DEFAULT_PAGE_LAYOUT, type PageLayout } from "./markover-page";
+
+// Images that haven't loaded by then are measured at their current size
+const IMAGE_LOAD_TIMEOUT = 5000;
+
+// `break-before`/`break-after` values that force a new page
+const FORCED_BREAK_REGEX = /^(page|always|left|right|recto|verso)$/;
+
+// Line counts used when neither the browser nor the content sets
+// `orphans`/`widows`
+const DEFAULT_ORPHANS = 2;
+const DEFAULT_WIDOWS = 2;
+
+/**
+ * Split rendered HTML into pages
+ * Content is measured inside `host` (default: document.body) so it inherits
+ * the same fonts and styles as the preview. Resolves once images and fonts
+ * have loaded and the content has been measured
+ */
+export async function paginateHtml(
+  html: string,
+  layout: PageLayout = DEFAULT_PAGE_LAYOUT,
+  host: HTMLElement = document.body
+): Promise<string[]> {
+  if (!html.trim()) return [""];
+
+  const { margins } = layout;
+  const measure = document.createElement("div");
+  measure.className = "markover-content";
+  measure.setAttribute("aria-hidden", "true");
+  Object.assign(measure.style, {
+    position: "absolute",
+    top: "0",
+    left: "0",
+    width: `${layout.width - margins.left - margins.right}px`,
+    visibility: "hidden",
+    pointerEvents: "none",
+  });
+  measure.innerHTML = html;
+  host.appendChild(measure);
+
+  try {
+    await waitForResources(measure);
+    return layoutPages(
+      measure,
+      layout.height - margins.top - margins.bottom
+    ).map((page) => page.innerHTML);
+  } finally {
+    measure.remove();
+  }
+}
+
+// Elements that are moved to the next page whole instead of being split
+const UNSPLITTABLE_TAGS = new Set([
+  "BR",
+  "CANVAS",
+  "HR",
+  "IFRAME",
+  "IMG",
+  "INPUT",
+  "PICTURE",
+  "SVG",
+  "TR",
+  "VIDEO",
+]);
+
+/**
+ * Lay the measured content out on pages
+ * Blocks that fit are copied whole. A block that crosses the bottom of a
+ * page is split between its children, down to line boundaries in text, and
+ * the elements it sits in are repeated on the next page so every page is a
+ * well-formed tree. Tables split between rows and repeat their header
+ * rows. Table rows, horizontal layouts (flex rows, grids) and media are
+ * never split: they move to the next page, or get a page of their own when
+ * taller than a page
+ */
+function layoutPages(measure: HTMLElement, pageHeight: number): HTMLElement[] {
+  const origin = measure.getBoundingClientRect().top;
+  const pages: HTMLElement[] = [];
+  // Elements open on the current page, outermost first, with their copies
+  let path: { original: Element; clone: Element }[] = [];
+  // Bottom of the current page within the measured content
+  let limit = 0;
+  let hasContent = false;
+
+  const container = () => path[path.length - 1].clone;
+
+  const append = (
+    node: Node,
+    isContent = node instanceof Element || !!node.textContent?.trim()
+  ) => {
+    container().appendChild(node);
+    if (isContent) hasContent = true;
+  };
+
+  // Start a page at `top`, reopening the elements that `next` sits in
+  const newPage = (top: number, next: Node) => {
+    // Wrappers that received nothing are dropped rather than left empty
+    const emptied = path.map(
+      ({ clone }, depth) =>
+        depth > 0 &&
+        !clone.textContent?.trim() &&
+        !clone.querySelector(Array.from(UNSPLITTABLE_TAGS).join(","))
+    );
+    for (let depth = path.length - 1; depth > 0; depth--) {
+      if (emptied[depth]) path[depth].clone.remove();
+    }
+
+    const page = document.createElement("div");
+    const nextPath = [{ original: measure as Element, clone: page as Element }];
+    // Height of table headers repeated above the continued content
+    let repeatedHeight = 0;
+    for (let depth = 1; depth < path.length; depth++) {
+      const { original } = path[depth];
+      const child = path[depth + 1]?.original ?? next;
+      const clone = cloneWrapper(original, child, !emptied[depth]);
+      if (original instanceof HTMLTableElement && !emptied[depth]) {
+        repeatedHeight += repeatTableHeader(original, clone, child);
+      }
+      nextPath[depth - 1].clone.appendChild(clone);
+      nextPath.push({ original, clone });
+    }
+
+    pages.push(page);
+    path = nextPath;
+    limit = top + pageHeight - repeatedHeight;
+    hasContent = false;
+  };
+
+  const placeElement = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    const top = rect.top - origin - (parseFloat(style.marginTop) || 0);
+    const bottom = rect.bottom - origin;
+
+    if (hasContent && FORCED_BREAK_REGEX.test(style.breakBefore)) {
+      newPage(top, element);
+    } else if (hasContent && bottom <= limit) {
+      // Headings, table headers and break-after-avoid blocks move along
+      // with the start of the next block when that doesn't fit below them
+      const keepUntil = keepWithNextBottom(element, style);
+      if (keepUntil > limit && keepUntil - top <= pageHeight) {
+        newPage(top, element);
+      }
+    }
+
+    let splittable =
+      isSplittable(element, style) &&
+      !(/avoid/.test(style.breakInside) && bottom - top <= pageHeight);
+    if (bottom > limit && hasContent && (!splittable || top >= limit)) {
+      newPage(top, element);
+    }
+
+    if (bottom > limit && splittable && isLineBox(element)) {
+      splittable = applyLineRules(element, style, top);
+    }
+
+    if (bottom <= limit || !splittable) {
+      // Empty elements like page break markers don't start a page's content
+      append(element.cloneNode(true), rect.height > 0);
+    } else {
+      // An opened wrapper isn't content until something is placed in it
+      const clone = element.cloneNode(false) as Element;
+      container().appendChild(clone);
+      path.push({ original: element, clone });
+      for (const child of Array.from(element.childNodes)) place(child);
+      path.pop();
+    }
+
+    // Nothing else fits on a page after a forced break
+    if (hasContent && FORCED_BREAK_REGEX.test(style.breakAfter)) {
+      limit = -Infinity;
+    }
+  };
+
+  /**
+   * Keep at least `orphans` lines of a paragraph at the bottom of a page
+   * and `widows` lines at the top of the next one, by moving the paragraph
+   * or ending the page early. Returns false when the paragraph now fits
+   * whole
+   */
+  const applyLineRules = (
+    element: Element,
+    style: CSSStyleDeclaration,
+    top: number
+  ): boolean => {
+    const orphans = getLineCount(element, style, "orphans");
+    const widows = getLineCount(element, style, "widows");
+    const lines = lineBottoms(element);
+    let fitting = lines.filter((bottom) => bottom <= limit).length;
+
+    if (hasContent && fitting < Math.min(orphans, lines.length)) {
+      newPage(top, element);
+      fitting = lines.filter((bottom) => bottom <= limit).length;
+    }
+    if (fitting === lines.length) return false;
+
+    // Widows only win when the orphans rule can still be met
+    const keep = Math.min(fitting, lines.length - widows);
+    if (keep >= orphans && keep < fitting) limit = lines[keep - 1];
+    return true;
+  };
+
+  const placeText = (text: Text) => {
+    const value = text.data;
+    let start = 0;
+
+    while (start < value.length) {
+      const rest = value.substring(start);
+      if (!rest.trim() || rangeBottom(text, start, value.length) <= limit) {
+        append(document.createTextNode(rest));
+        return;
+      }
+
+      const end = findTextBreak(text, start, limit);
+      if (end > start) {
+        append(document.createTextNode(value.substring(start, end)));
+        start = end;
+      } else if (!hasContent) {
+        // Not even one line fits on an empty page
+        append(document.createTextNode(rest));
+        return;
+      }
+
+      const lineStart = value.substring(start).search(/\S/);
+      if (lineStart === -1) continue;
+      const firstChar = document.createRange();
+      firstChar.setStart(text, start + lineStart);
+      firstChar.setEnd(text, start + lineStart + 1);
+      newPage(firstChar.getBoundingClientRect().top - origin, text);
+    }
+  };
+
+  const place = (node: Node) => {
+    if (node instanceof Element) {
+      placeElement(node);
+    } else if (node instanceof Text) {
+      placeText(node);
+    } else {
+      append(node.cloneNode(true));
+    }
+  };
+
+  path = [{ original: measure, clone: measure }];
+  newPage(0, measure);
+  for (const node of Array.from(measure.childNodes)) place(node);
+
+  return pages;
+
+  /**
+   * Bottom edge of the lines of an inline formatting block, top to bottom
+   * Fragments that overlap vertically belong to the same line
+   */
+  function lineBottoms(element: Element): number[] {
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    const rects = Array.from(range.getClientRects())
+      .filter((rect) => rect.height > 0)
+      .sort((a, b) => a.top - b.top);
+
+    const lines: { top: number; bottom: number }[] = [];
+    for (const rect of rects) {
+      const line = lines[lines.length - 1];
+      if (line && rect.top < line.bottom - 1) {
+        line.bottom = Math.max(line.bottom, rect.bottom);
+      } else {
+        lines.push({ top: rect.top, bottom: rect.bottom });
+      }
+    }
+    return lines.map((line) => line.bottom - origin);
+  }
+
+  /**
+   * How far down a block must fit on the page to stay with the start of
+   * the block after it: headings, table captions and header rows, and
+   * `break-after: avoid` blocks need the first lines (or all of an
+   * unsplittable block) of their next sibling
+   */
+  function keepWithNextBottom(
+    element: Element,
+    style: CSSStyleDeclaration
+  ): number {
+    const keep =
+      /^(H[1-6]|CAPTION|THEAD)$/.test(element.tagName.toUpperCase()) ||
+      /avoid/.test(style.breakAfter);
+    const next = element.nextElementSibling;
+    if (!keep || !next) return -Infinity;
+    return firstPartBottom(next);
+  }
+
+  /**
+   * Bottom of the smallest first part a block can be split into
+   */
+  function firstPartBottom(element: Element): number {
+    const style = getComputedStyle(element);
+    const bottom = element.getBoundingClientRect().bottom - origin;
+    if (!isSplittable(element, style) || /avoid/.test(style.breakInside)) {
+      return bottom;
+    }
+    if (isLineBox(element)) {
+      const lines = lineBottoms(element);
+      const orphans = getLineCount(element, style, "orphans");
+      return lines.length ? lines[Math.min(orphans, lines.length) - 1] : bottom;
+    }
+    const first = element.firstElementChild;
+    return first ? firstPartBottom(first) : bottom;
+  }
+
+  /**
+   * Bottom edge of a run of text within the measured content
+   */
+  function rangeBottom(text: Text, start: number, end: number): number {
+    const range = document.createRange();
+    range.setStart(text, start);
+    range.setEnd(text, end);
+    const rects = Array.from(range.getClientRects());
+    return rects.length
+      ? Math.max(...rects.map((rect) => rect.bottom)) - origin
+      : -Infinity;
+  }
+
+  /**
+   * Offset at which to break text so that everything before it ends above
+   * `limit`. Breaks after whitespace when possible so words stay whole;
+   * returns `start` when not even the first line fits
+   */
+  function findTextBreak(text: Text, start: number, limit: number): number {
+    // Longest run from `start` that still ends above the limit
+    let low = start;
+    let high = text.data.length;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (rangeBottom(text, start, mid) <= limit) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (low === start) return start;
+
+    const lastSpace = text.data.substring(start, low + 1).search(/\s\S*$/);
+    return lastSpace > 0 ? start + lastSpace + 1 : low;
+  }
+}
+
+/**
+ * Whether an element can be split between its children
+ */
+function isSplittable(element: Element, style: CSSStyleDeclaration): boolean {
+  if (UNSPLITTABLE_TAGS.has(element.tagName.toUpperCase())) return false;
+  if (!element.hasChildNodes()) return false;
+
+  const { display, flexDirection } = style;
+  if (display.includes("grid") || display === "inline-block") return false;
+  if (display.includes("flex") && !flexDirection.startsWith("column")) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Whether an element only contains text and inline elements, so it is
+ * split between its lines
+ */
+function isLineBox(element: Element): boolean {
+  return Array.from(element.children).every((child) =>
+    getComputedStyle(child).display.startsWith("inline")
+  );
+}
+
+/**
+ * Repeat a table's header rows, and its caption marked as continued, at
+ * the top of the table's copy on the next page. Returns the height they
+ * take up
+ */
+function repeatTableHeader(
+  table: HTMLTableElement,
+  clone: Element,
+  child: Node
+): number {
+  const { caption, tHead } = table;
+  const inHeader = [caption, tHead].some(
+    (part) => part && (part === child || part.contains(child))
+  );
+  if (inHeader) return 0;
+
+  let height = 0;
+  if (caption) {
+    const continued = caption.cloneNode(true) as Element;
+    continued.setAttribute("data-continued", "");
+    continued.append(" (continued)");
+    clone.appendChild(continued);
+    height += caption.getBoundingClientRect().height;
+  }
+  if (tHead) {
+    clone.appendChild(tHead.cloneNode(true));
+    height += tHead.getBoundingClientRect().height;
+  }
+  return height;
+}
+
+/**
+ * Copy an element without its children to reopen it on the next page
+ * Continued copies drop the id, which the first part keeps, and are marked
+ * with `data-continued`; ordered lists continue their numbering at `child`
+ */
+function cloneWrapper(
+  original: Element,
+  child: Node,
+  continued: boolean
+): Element {
+  const clone = original.cloneNode(false) as Element;
+
+  if (continued) {
+    clone.removeAttribute("id");
+    clone.setAttribute("data-continued", "");
+  }
+
+  if (original instanceof HTMLOListElement && !original.reversed) {
+    const items = Array.from(original.children).filter(
+      (item) => item.tagName === "LI"
+    );
+    const index = items.findIndex(
+      (item) => item === child || item.contains(child)
+    );
+    if (index > 0) clone.setAttribute("start", String(original.start + index));
+  }
+
+  return clone;
+}
+
+/**
+ * Wait for the images inside an element and for its document's web fonts
+ * to load, giving up after `IMAGE_LOAD_TIMEOUT`
+ */
+export async function waitForResources(element: HTMLElement): Promise<void> {
+  const images = Array.from(element.querySelectorAll("img"));
+  // Lazy images never load while hidden off screen
+  for (const image of images) image.loading = "eager";
+
+  const pending = images
+    .filter((image) => !image.complete)
+    .map(
+      (image) =>
+        new Promise<void>((resolve) => {
+          image.addEventListener("load", () => resolve(), { once: true });
+          image.addEventListener("error", () => resolve(), { once: true });
+        })
+    );
+
+  await Promise.race([
+    Promise.all([...pending, element.ownerDocument.fonts?.ready]),
+    new Promise((resolve) => setTimeout(resolve, IMAGE_LOAD_TIMEOUT)),
+  ]);
+}
+
+/**
+ * `orphans` or `widows` for an element
+ * Firefox doesn't support either property, so there the value comes from
+ * the nearest `[orphans:3]` class or `orphans: 3` inline style instead,
+ * as both properties inherit
+ */
+function getLineCount(
+  element: Element,
+  style: CSSStyleDeclaration,
+  property: "orphans" | "widows"
+): number {
+  const computed = parseInt(style[property]);
+  if (computed) return computed;
+
+  const pattern = new RegExp(`(?:^|[\\s;])\\[?${property}:\\s*(\\d+)`);
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const match = pattern.exec(
+      `${node.getAttribute("class") ?? ""} ${node.getAttribute("style") ?? ""}`
+    );
+    if (match) return parseInt(match[1]);
+  }
+  return property === "orphans" ? DEFAULT_ORPHANS : DEFAULT_WIDOWS;
+}
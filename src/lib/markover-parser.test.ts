@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import { MarkOverParser } from "./markover-parser";
+
+const parser = new MarkOverParser();
+const parse = (text: string) => parser.parse(text);
+const codes = (text: string) =>
+  parse(text).diagnostics.map((diagnostic) => diagnostic.code);
+
+describe("parseToAst", () => {
+  it("records source positions for blocks", () => {
+    const [block] = parser.parseToAst("<>'p-4'\nhi\n</>").children;
+    expect(block.type).toBe("angleBlock");
+    expect(block.position).toEqual({
+      start: { line: 1, column: 1, offset: 0 },
+      end: { line: 3, column: 4, offset: 14 },
+    });
+  });
+
+  it("keeps fenced code as code nodes", () => {
+    const { children } = parser.parseToAst("```\n<>'p-4'\n</>\n```");
+    expect(children.map((node) => node.type)).toEqual(["code"]);
+  });
+});
+
+describe("parse", () => {
+  it("renders Angle Blocks with their classes", () => {
+    expect(parse("<>'bg-white p-4'\n# Hi\n</>").html).toBe(
+      '<div class="bg-white p-4"><h1>Hi</h1>\n</div>'
+    );
+  });
+
+  it("renders Angle spans", () => {
+    expect(parse("<>'text-red-500'[red] text").html).toBe(
+      '<p><span class="text-red-500">red</span> text</p>\n'
+    );
+  });
+
+  it("keeps escaped openers and closers as text", () => {
+    const result = parse("\\<>'x' and \\</>");
+    expect(result.html).toBe("<p>&lt;&gt;&#39;x&#39; and &lt;/&gt;</p>\n");
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("reports blocks that are never closed", () => {
+    const result = parse("<>'p-4'\nx");
+    expect(result.html).toBe('<div class="p-4"><p>x</p>\n</div>');
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "unclosed-block",
+    ]);
+  });
+
+  it("reports an empty class list", () => {
+    expect(codes("<>''\nx\n</>")).toContain("empty-class-list");
+  });
+
+  it("drops a stray </> without breaking the line", () => {
+    const result = parse("stray </> here");
+    expect(result.html).toBe("<p>stray  here</p>\n");
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "stray-closer",
+    ]);
+  });
+
+  it("keeps one Markdown node across stray closers", () => {
+    const { children } = parser.parseToAst("a </> b </> c\n\nnext");
+    expect(children).toHaveLength(1);
+    expect(children[0]).toMatchObject({
+      type: "markdown",
+      value: "a  b  c\n\nnext",
+      position: { start: { offset: 0 }, end: { offset: 19 } },
+    });
+  });
+
+  it("returns an empty result for blank text", () => {
+    expect(parse("  \n").html).toBe("");
+  });
+});
+
+describe("closing tags", () => {
+  it("reports a </> that crosses an open Flex Block", () => {
+    const { diagnostics } = parse("<>'p-4'\n:::flex\na\n</>\n:::");
+    const closer = diagnostics.find(
+      (diagnostic) => diagnostic.code === "misnested-closer"
+    );
+    expect(closer?.message).toContain("Angle Block opened on line 1");
+    expect(closer?.message).toContain(":::flex from line 2");
+    expect(closer?.position.start.line).toBe(4);
+    expect(codes("<>'p-4'\n:::flex\na\n</>\n:::")).not.toContain(
+      "stray-closer"
+    );
+  });
+
+  it("names the innermost Angle Block", () => {
+    const { diagnostics } = parse(
+      "<>'a'\n<>'b'\n:::flex\nx\n</>\n:::\n</>\n</>"
+    );
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].message).toContain("opened on line 2");
+  });
+
+  it("reports a </> inside a Flex Block with no Angle Block as stray", () => {
+    expect(codes(":::flex\n</>\n:::")).toEqual(["stray-closer"]);
+  });
+
+  it("closes the innermost Angle Block", () => {
+    expect(parse("<>'a'\n<>'b'\nx\n</>\ny\n</>").html).toBe(
+      '<div class="a"><div class="b"><p>x</p>\n</div><p>y</p>\n</div>'
+    );
+  });
+});
@@ -1,438 +1,1443 @@
-import { marked } from "marked";
-
-// Configure marked for better HTML output
-marked.setOptions({
-  breaks: true,
-  gfm: true,
-});
+import { Marked, type MarkedExtension } from "marked";
+import {
+  createPointLookup,
+  walkAst,
+  type CodeNode,
+  type CustomBlockNode,
+  type FlexBlockProperties,
+  type MarkOverNode,
+  type MarkOverParentNode,
+  type MarkOverRoot,
+  type SourcePosition,
+} from "./markover-ast";
+import { builtinPlugins } from "./markover-builtins";
+import type { MarkOverDiagnostic } from "./markover-diagnostics";
+import {
+  PAGE_SIZES,
+  resolvePageLayout,
+  toPixels,
+  type PageLayout,
+  type PageLength,
+  type PageSettings,
+  type PageSizeName,
+} from "./markover-page";
+import {
+  extractTitle,
+  type PageTemplates,
+  type RunningTemplate,
+} from "./markover-running";
+import type {
+  MarkOverBlockType,
+  MarkOverPlugin,
+  MarkOverPluginContext,
+} from "./markover-plugins";
+import {
+  DEFAULT_DOCUMENT_SECTION,
+  PAGE_NUMBERINGS,
+  parseNewPage,
+  type DocumentSection,
+  type PageNumbering,
+} from "./markover-sections";
+import {
+  escapeAttribute,
+  isSafeStyle,
+  resolveSanitizerOptions,
+  sanitizeHtml,
+  type MarkOverSanitizeOption,
+  type SanitizerOptions,
+} from "./markover-sanitizer";
+import {
+  angleSpanExtension,
+  matchAngleOpener,
+  matchSpanText,
+} from "./markover-syntax";
 
 export interface MarkOverOptions {
   mode: "web" | "paged";
   zoom: number;
+  /** Sanitize rendered HTML (default: on with the default allowlists) */
+  sanitize?: MarkOverSanitizeOption;
+  /**
+   * Page size, orientation and margins for the paged view and export
+   * Values set here win over the document's front matter
+   */
+  page?: PageSettings;
+}
+
+/**
+ * Markdown settings for a parser instance
+ * Each instance owns its own `Marked`, so different configurations can be
+ * used side by side without touching the global `marked`
+ */
+export interface MarkOverParserConfig {
+  /** Render single line breaks as <br> (default: true) */
+  breaks?: boolean;
+  /** GitHub Flavored Markdown: tables, task lists, strikethrough (default: true) */
+  gfm?: boolean;
+  /** Additional marked extensions, applied after the built-in ones */
+  extensions?: MarkedExtension[];
+  /**
+   * marked hooks. They run once per rendered Markdown run, not once per
+   * document, because blocks split the source into several runs
+   */
+  hooks?: MarkedExtension["hooks"];
+  /** Plugins to register, see `MarkOverParser#use` */
+  plugins?: MarkOverPlugin[];
+}
+
+export interface MarkOverParseResult {
+  html: string;
+  diagnostics: MarkOverDiagnostic[];
+  /** Front matter values, empty when the document has none */
+  frontMatter: Record<string, string>;
+  /** Front matter `title`, or the text of the first h1 */
+  title: string;
+  /**
+   * Page numbering and running header/footer templates for paged output;
+   * the first section comes from the front matter
+   */
+  sections: DocumentSection[];
+  /** Page setup from the front matter and `options.page` */
+  page: PageSettings;
+  /** `page` resolved to pixels */
+  layout: PageLayout;
+}
+
+interface RenderContext {
+  source: string;
+  sanitizer: SanitizerOptions | null;
+  diagnostics: MarkOverDiagnostic[];
 }
 
+// Properties a `:::section` directive understands
+const SECTION_PROPERTY_REGEX =
+  /^(numbering|start|new-page|(header|footer)(-(first|odd|even))?)$/;
+
+// Blocks nested deeper than this are unwrapped to keep rendering bounded
+const MAX_NESTING_DEPTH = 20;
+
+// Flex Block property values and the TailwindCSS classes they map to
+const FLEX_JUSTIFY_CLASSES: Record<
+  NonNullable<FlexBlockProperties["justify"]>,
+  string
+> = {
+  start: "justify-start",
+  end: "justify-end",
+  center: "justify-center",
+  between: "justify-between",
+  around: "justify-around",
+  evenly: "justify-evenly",
+};
+
+const FLEX_ALIGN_CLASSES: Record<
+  NonNullable<FlexBlockProperties["align"]>,
+  string
+> = {
+  start: "items-start",
+  end: "items-end",
+  center: "items-center",
+  stretch: "items-stretch",
+  baseline: "items-baseline",
+};
+
+const FLEX_DIRECTION_CLASSES: Record<
+  NonNullable<FlexBlockProperties["direction"]>,
+  string
+> = {
+  row: "flex-row",
+  column: "flex-col",
+  "row-reverse": "flex-row-reverse",
+  "column-reverse": "flex-col-reverse",
+};
+
+const FLEX_WRAP_CLASSES: Record<
+  NonNullable<FlexBlockProperties["wrap"]>,
+  string
+> = {
+  nowrap: "flex-nowrap",
+  wrap: "flex-wrap",
+  "wrap-reverse": "flex-wrap-reverse",
+};
+
+// Elements an Angle Block may render as ({tag=section})
+const ANGLE_BLOCK_TAGS = new Set([
+  "div",
+  "section",
+  "article",
+  "aside",
+  "header",
+  "footer",
+  "nav",
+  "main",
+  "figure",
+  "figcaption",
+  "blockquote",
+  "address",
+  "details",
+  "summary",
+]);
+
+// Attributes an Angle Block may set; names ending in * match a prefix
+const ANGLE_BLOCK_ATTRIBUTES = [
+  "id",
+  "style",
+  "title",
+  "role",
+  "lang",
+  "dir",
+  "data-*",
+  "aria-*",
+];
+
+// Start of a list item (bullet or ordered)
+const LIST_ITEM_REGEX = /^([-+*]|\d{1,9}[.)])(\s|$)/;
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+// Open block that is not the root
+type OpenBlockNode = Exclude<MarkOverParentNode, MarkOverRoot>;
+
 export class MarkOverParser {
+  private readonly config: MarkOverParserConfig;
+  private marked!: Marked;
+  private plugins: MarkOverPlugin[] = [];
+  private blockTypes = new Map<
+    string,
+    { plugin: MarkOverPlugin; blockType: MarkOverBlockType }
+  >();
+
+  constructor(config: MarkOverParserConfig = {}) {
+    this.config = config;
+    this.use(...builtinPlugins, ...(config.plugins ?? []));
+  }
+
+  /**
+   * Register plugins
+   * Plugins are kept sorted by `order`; block types, marked extensions and
+   * post-processors all run in that order. Throws when a block type name
+   * is already taken
+   */
+  use(...plugins: MarkOverPlugin[]): this {
+    const sorted = [...this.plugins, ...plugins].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0)
+    );
+
+    const blockTypes: typeof this.blockTypes = new Map();
+    for (const plugin of sorted) {
+      for (const blockType of plugin.blocks ?? []) {
+        if (blockType.name === "flex" || blockTypes.has(blockType.name)) {
+          throw new Error(
+            `Plugin "${plugin.name}" registers block type "${blockType.name}", which is already registered`
+          );
+        }
+        blockTypes.set(blockType.name, { plugin, blockType });
+      }
+    }
+
+    const { breaks = true, gfm = true, extensions = [], hooks } = this.config;
+    const marked = new Marked(
+      { breaks, gfm },
+      { extensions: [angleSpanExtension] },
+      ...extensions,
+      ...sorted.flatMap((plugin) => plugin.markdown ?? [])
+    );
+    if (hooks) marked.use({ hooks });
+
+    this.plugins = sorted;
+    this.blockTypes = blockTypes;
+    this.marked = marked;
+    return this;
+  }
+
   /**
    * Parse MarkOver (.mo) text into HTML
    * Supports:
    * - Standard Markdown syntax
    * - Angle Blocks: <>'classes'...content...</>
+   * - Inline Angle spans: <>'classes'[text]
+   * - Legacy Flex Blocks: :::flex key=value...content...:::
+   * - Block types and inline syntax registered by plugins
+   * - Front matter, including running header and footer templates
+   * - Sections that change page numbering and templates
+   * Problems found along the way are returned as diagnostics
+   * Rendered HTML is sanitized unless `options.sanitize` is false; plugin
+   * HTML post-processors run after that
    */
-  static parse(
+  parse(
     text: string,
-    _options: MarkOverOptions = { mode: "web", zoom: 100 }
-  ): string {
-    if (!text.trim()) return "";
-
-    // Process blocks recursively to handle nesting
-    const processed = this.processAllBlocks(text);
+    options: MarkOverOptions = { mode: "web", zoom: 100 }
+  ): MarkOverParseResult {
+    const diagnostics: MarkOverDiagnostic[] = [];
+    if (!text.trim()) {
+      const page = options.page ?? {};
+      return {
+        html: "",
+        diagnostics,
+        frontMatter: {},
+        title: "",
+        sections: [DEFAULT_DOCUMENT_SECTION],
+        page,
+        layout: resolvePageLayout(page),
+      };
+    }
 
-    // Process Markdown content that's not inside divs
-    const html = this.processMarkdownOutsideDivs(processed);
+    const ast = this.parseToAst(text, diagnostics);
+    const context: RenderContext = {
+      source: text,
+      sanitizer: resolveSanitizerOptions(options.sanitize),
+      diagnostics,
+    };
+    let html = this.renderNodes(ast.children, context);
+
+    for (const plugin of this.plugins) {
+      if (plugin.transformHtml) {
+        html = plugin.transformHtml(
+          html,
+          this.createPluginContext(plugin, text, diagnostics)
+        );
+      }
+    }
 
-    return html;
-  }
+    const frontMatter = ast.frontMatter?.values ?? {};
+    const sections = this.resolveSections(ast, context);
+    const page = this.resolvePage(ast, options.page, context);
 
-  /**
-   * Process Markdown content that's outside of div elements
-   */
-  private static processMarkdownOutsideDivs(text: string): string {
-    // Use a more sophisticated approach to handle nested divs
-    const result = this.splitByDivsAndProcessMarkdown(text);
-    return result;
+    diagnostics.sort(
+      (a, b) => a.position.start.offset - b.position.start.offset
+    );
+    return {
+      html,
+      diagnostics,
+      frontMatter,
+      title: frontMatter.title ?? extractTitle(html),
+      sections,
+      page,
+      layout: resolvePageLayout(page),
+    };
   }
 
   /**
-   * Split text by div elements (handling nesting) and process Markdown in non-div parts
+   * Parse MarkOver (.mo) text into a typed AST
+   * Angle Blocks become `angleBlock` nodes, Flex Blocks `flexBlock` nodes,
+   * plugin block types `customBlock` nodes, fenced code becomes `code` nodes
+   * and everything in between is kept as raw `markdown` nodes
+   * Plugin AST post-processors run on the finished tree
+   * Problems are appended to `diagnostics` when given
    */
-  private static splitByDivsAndProcessMarkdown(text: string): string {
-    let result = "";
+  parseToAst(
+    text: string,
+    diagnostics: MarkOverDiagnostic[] = []
+  ): MarkOverRoot {
+    const pointAt = createPointLookup(text);
+    const root: MarkOverRoot = {
+      type: "root",
+      children: [],
+      frontMatter: null,
+      position: { start: pointAt(0), end: pointAt(text.length) },
+    };
+
+    // Open blocks, innermost last, with the range of their opening tag.
+    // Unwrapped blocks hand their children to the parent when closed
+    const stack: {
+      node: MarkOverParentNode;
+      start: number;
+      openerEnd: number;
+      unwrapped?: boolean;
+    }[] = [{ node: root, start: 0, openerEnd: 0 }];
+    let textStart = 0;
     let i = 0;
+    // Markdown run continued across dropped syntax (a stray </>), with the
+    // text collected before it
+    let runStart: number | null = null;
+    let runText = "";
+
+    const current = () => stack[stack.length - 1].node;
+    const ids = new Set<string>();
+
+    const flushMarkdown = (end: number) => {
+      const value = runText + text.substring(textStart, end);
+      if (value.trim()) {
+        current().children.push({
+          type: "markdown",
+          value,
+          position: {
+            start: pointAt(runStart ?? textStart),
+            end: pointAt(end),
+          },
+        });
+      }
+      runStart = null;
+      runText = "";
+    };
+
+    const report = (
+      severity: MarkOverDiagnostic["severity"],
+      code: MarkOverDiagnostic["code"],
+      message: string,
+      start: number,
+      end: number
+    ) => {
+      diagnostics.push({
+        severity,
+        code,
+        message,
+        position: { start: pointAt(start), end: pointAt(end) },
+      });
+    };
+
+    const openBlock = (
+      node: OpenBlockNode,
+      start: number,
+      openerEnd: number
+    ) => {
+      const unwrapped = stack.length > MAX_NESTING_DEPTH;
+      if (unwrapped) {
+        report(
+          "warning",
+          "dropped-content",
+          `Block is nested more than ${MAX_NESTING_DEPTH} levels deep; its wrapper was dropped and its content moved to the parent`,
+          start,
+          openerEnd
+        );
+      }
+      stack.push({ node, start, openerEnd, unwrapped });
+    };
+
+    const closeBlock = (end: number) => {
+      const { node, start, unwrapped } = stack.pop()!;
+      node.position = { start: pointAt(start), end: pointAt(end) };
+      if (unwrapped) {
+        current().children.push(...node.children);
+      } else {
+        current().children.push(node as OpenBlockNode);
+      }
+    };
+
+    // Open a plugin block type; leaf blocks are added straight away
+    const openCustomBlock = (
+      name: string,
+      syntax: CustomBlockNode["syntax"],
+      start: number,
+      nameEnd: number
+    ) => {
+      const { blockType } = this.blockTypes.get(name)!;
+      const attributeList = this.matchAngleAttributes(text, nameEnd);
+      const openerEnd = attributeList?.end ?? nameEnd;
+      const node: CustomBlockNode = {
+        type: "customBlock",
+        name,
+        syntax,
+        properties: Object.fromEntries(
+          (attributeList?.entries ?? []).map(([key, value]) => [
+            key,
+            value ?? "",
+          ])
+        ),
+        children: [],
+        position: { start: pointAt(start), end: pointAt(openerEnd) },
+      };
+
+      flushMarkdown(start);
+      if (blockType.leaf) {
+        current().children.push(node);
+      } else {
+        openBlock(node, start, openerEnd);
+      }
+      return openerEnd;
+    };
+
+    const frontMatter = this.matchFrontMatter(text, (start, end) =>
+      report(
+        "warning",
+        "invalid-property",
+        "Front matter line is not a `key: value` pair and was ignored",
+        start,
+        end
+      )
+    );
+    if (frontMatter) {
+      root.frontMatter = {
+        type: "frontMatter",
+        values: frontMatter.values,
+        position: { start: pointAt(0), end: pointAt(frontMatter.end) },
+      };
+      i = textStart = frontMatter.end;
+    }
 
     while (i < text.length) {
-      // Look for the next div opening tag
-      const divStart = text.indexOf('<div class="', i);
-
-      if (divStart === -1) {
-        // No more divs, process the rest as Markdown
-        const remaining = text.substring(i);
-        if (remaining.trim()) {
-          result += marked.parse(remaining) as string;
+      // Code blocks and Flex Block fences can only start at the beginning
+      // of a line
+      if (i === 0 || text[i - 1] === "\n") {
+        const codeBlock =
+          this.matchIndentedCode(text, i, stack[stack.length - 1].openerEnd) ??
+          this.matchFencedCode(text, i);
+        if (codeBlock) {
+          const { end, ...code } = codeBlock;
+          flushMarkdown(i);
+          current().children.push({
+            ...code,
+            position: { start: pointAt(i), end: pointAt(end) },
+          });
+          i = textStart = end;
+          continue;
+        }
+
+        const lineEnd = this.lineEnd(text, i);
+        const line = text.substring(i, lineEnd);
+
+        const flexOpener = /^ {0,3}:::flex(?:[ \t]+(.*))?$/.exec(line);
+        if (flexOpener) {
+          const lineStart = i;
+          const properties = this.parseFlexProperties(
+            flexOpener[1] || "",
+            (pair) =>
+              report(
+                "warning",
+                "invalid-property",
+                `Unsupported Flex Block property "${pair}" was ignored`,
+                lineStart,
+                lineEnd
+              )
+          );
+          flushMarkdown(i);
+          openBlock(
+            {
+              type: "flexBlock",
+              properties,
+              children: [],
+              position: root.position,
+            },
+            i,
+            lineEnd
+          );
+          i = textStart = lineEnd;
+          continue;
+        }
+
+        const fencedOpener = /^( {0,3}:::)([a-z][\w-]*)/.exec(line);
+        const fencedType =
+          fencedOpener && this.blockTypes.get(fencedOpener[2])?.blockType;
+        if (fencedOpener && fencedType && fencedType.syntax !== "angle") {
+          const lineStart = i;
+          const openerEnd = openCustomBlock(
+            fencedOpener[2],
+            "fenced",
+            i,
+            i + fencedOpener[0].length
+          );
+          if (text.substring(openerEnd, lineEnd).trim()) {
+            report(
+              "warning",
+              "invalid-property",
+              `Unsupported ":::${fencedOpener[2]}" properties were ignored; use {key=value}`,
+              lineStart,
+              lineEnd
+            );
+          }
+          i = textStart = lineEnd;
+          continue;
+        }
+
+        // A bare ::: only closes a Flex Block or fenced plugin block;
+        // anywhere else it's plain text
+        const top = current();
+        if (
+          /^ {0,3}:::\s*$/.test(line) &&
+          (top.type === "flexBlock" ||
+            (top.type === "customBlock" && top.syntax === "fenced"))
+        ) {
+          flushMarkdown(i);
+          closeBlock(lineEnd);
+          i = textStart = lineEnd;
+          continue;
         }
-        break;
       }
 
-      // Process content before the div as Markdown
-      const beforeDiv = text.substring(i, divStart);
-      if (beforeDiv.trim()) {
-        result += marked.parse(beforeDiv) as string;
+      // Backslash escapes the next character, so \<>' and \</> stay text
+      if (text[i] === "\\") {
+        i += 2;
+        continue;
       }
 
-      // Find the matching closing div tag (handling nesting)
-      const divEnd = this.findMatchingDivEnd(text, divStart);
-      if (divEnd === -1) {
-        // No matching closing tag, process the rest as Markdown
-        const remaining = text.substring(divStart);
-        if (remaining.trim()) {
-          result += marked.parse(remaining) as string;
+      // Skip over inline code so its content is never treated as syntax
+      if (text[i] === "`") {
+        i = this.matchInlineCode(text, i);
+        continue;
+      }
+
+      if (text.startsWith("<>'", i) || text.startsWith('<>"', i)) {
+        const opener = matchAngleOpener(text, i);
+
+        // Inline spans (<>'classes'[text]) are left to the Markdown renderer
+        const spanEnd = opener ? matchSpanText(text, opener.end) : -1;
+        if (spanEnd !== -1) {
+          i = spanEnd;
+          continue;
         }
-        break;
+
+        if (opener) {
+          const openerStart = i;
+          const attributeList = this.matchAngleAttributes(text, opener.end);
+          const openerEnd = attributeList?.end ?? opener.end;
+
+          if (!opener.classes.length) {
+            report(
+              "warning",
+              "empty-class-list",
+              "Angle Block has an empty class list",
+              openerStart,
+              openerEnd
+            );
+          }
+
+          const { tag, attributes } = this.resolveAngleAttributes(
+            attributeList?.entries ?? [],
+            (message) =>
+              report(
+                "warning",
+                "invalid-property",
+                message,
+                openerStart,
+                openerEnd
+              )
+          );
+          if (attributes.id) {
+            if (ids.has(attributes.id)) {
+              report(
+                "warning",
+                "duplicate-id",
+                `Id "${attributes.id}" is already used by another Angle Block`,
+                openerStart,
+                openerEnd
+              );
+            }
+            ids.add(attributes.id);
+          }
+
+          flushMarkdown(i);
+          openBlock(
+            {
+              type: "angleBlock",
+              classes: opener.classes,
+              tag,
+              attributes,
+              children: [],
+              position: root.position,
+            },
+            openerStart,
+            openerEnd
+          );
+          i = textStart = openerEnd;
+          continue;
+        }
+
+        report(
+          "warning",
+          "unterminated-class-list",
+          "Angle Block class list is not closed on the same line and was kept as text",
+          i,
+          this.lineEnd(text, i)
+        );
       }
 
-      // Extract the complete div (including nested divs)
-      const divContent = text.substring(divStart, divEnd + 6); // +6 for "</div>"
-      result += divContent;
+      // Angle-style plugin blocks: <>name {key=value}
+      if (text.startsWith("<>", i)) {
+        const name = /^[a-z][\w-]*/.exec(
+          text.substring(i + 2, this.lineEnd(text, i))
+        )?.[0];
+        if (name && this.blockTypes.get(name)?.blockType.syntax === "angle") {
+          i = textStart = openCustomBlock(
+            name,
+            "angle",
+            i,
+            i + 2 + name.length
+          );
+          continue;
+        }
+      }
 
-      // Move to after this div
-      i = divEnd + 6;
+      if (text.startsWith("</>", i)) {
+        // Closing tags without an open Angle Block are dropped; the
+        // Markdown around them stays one run
+        const top = current();
+        if (
+          top.type === "angleBlock" ||
+          (top.type === "customBlock" && top.syntax === "angle")
+        ) {
+          flushMarkdown(i);
+          closeBlock(i + 3);
+        } else {
+          runStart ??= textStart;
+          runText += text.substring(textStart, i);
+          // An Angle Block further down the stack means the blocks overlap
+          const outer = stack.findLast(
+            ({ node }, index) =>
+              index > 0 &&
+              (node.type === "angleBlock" ||
+                (node.type === "customBlock" && node.syntax === "angle"))
+          );
+          if (outer) {
+            const inner = stack[stack.length - 1];
+            const innerName =
+              top.type === "customBlock" ? `:::${top.name}` : ":::flex";
+            report(
+              "warning",
+              "misnested-closer",
+              `Closing tag </> would close the Angle Block opened on line ${
+                pointAt(outer.start).line
+              }, but ${innerName} from line ${
+                pointAt(inner.start).line
+              } is still open; close it with ::: first. The </> was removed`,
+              i,
+              i + 3
+            );
+          } else {
+            report(
+              "warning",
+              "stray-closer",
+              "Closing tag </> has no open Angle Block to close and was removed (write \\</> for a literal </>)",
+              i,
+              i + 3
+            );
+          }
+        }
+        i = textStart = i + 3;
+        continue;
+      }
+
+      i++;
     }
 
-    return result;
+    flushMarkdown(text.length);
+
+    // Close any blocks left open at the end of the document
+    while (stack.length > 1) {
+      const { node, start, openerEnd } = stack[stack.length - 1];
+      const [label, closer] =
+        node.type === "flexBlock"
+          ? ["Flex Block", ":::"]
+          : node.type === "customBlock"
+            ? [`Block "${node.name}"`, node.syntax === "fenced" ? ":::" : "</>"]
+            : ["Angle Block", "</>"];
+      report(
+        "error",
+        "unclosed-block",
+        `${label} is never closed with ${closer} and runs to the end of the document`,
+        start,
+        openerEnd
+      );
+      closeBlock(text.length);
+    }
+
+    for (const plugin of this.plugins) {
+      plugin.transformAst?.(
+        root,
+        this.createPluginContext(plugin, text, diagnostics)
+      );
+    }
+
+    return root;
   }
 
   /**
-   * Find the matching closing div tag for a given opening div tag
+   * Serialize AST nodes to HTML
+   * Adjacent Markdown and code nodes are rendered together so that
+   * constructs spanning both (e.g. code inside a list item) stay intact
    */
-  private static findMatchingDivEnd(text: string, startIndex: number): number {
-    let depth = 0;
-    let i = startIndex;
+  private renderNodes(nodes: MarkOverNode[], context: RenderContext): string {
+    let html = "";
+    let source = "";
+    let sourcePosition = null as SourcePosition | null;
+
+    const flushSource = () => {
+      if (source.trim() && sourcePosition) {
+        html += this.renderMarkdown(source, sourcePosition, context);
+      }
+      source = "";
+      sourcePosition = null;
+    };
+
+    for (const node of nodes) {
+      if (node.type === "angleBlock") {
+        flushSource();
+        const attributes = node.classes.length
+          ? { class: node.classes.join(" "), ...node.attributes }
+          : node.attributes;
+        html += `<${node.tag}${this.renderAttributes(
+          attributes
+        )}>${this.renderNodes(node.children, context)}</${node.tag}>`;
+        continue;
+      }
 
-    while (i < text.length) {
-      const divStart = text.indexOf("<div", i);
-      const divEnd = text.indexOf("</div>", i);
+      if (node.type === "customBlock") {
+        flushSource();
+        const children = this.renderNodes(node.children, context);
+        const registered = this.blockTypes.get(node.name);
+        // Blocks whose type is no longer registered render their content only
+        html += registered
+          ? registered.blockType.render(
+              node,
+              children,
+              this.createPluginContext(
+                registered.plugin,
+                context.source,
+                context.diagnostics
+              )
+            )
+          : children;
+        continue;
+      }
 
-      if (divStart === -1 && divEnd === -1) {
-        break;
+      if (node.type === "flexBlock") {
+        flushSource();
+        html += `${this.renderFlexOpeningTag(
+          node.properties
+        )}${this.renderNodes(node.children, context)}</div>`;
+        continue;
       }
 
-      if (divStart !== -1 && (divEnd === -1 || divStart < divEnd)) {
-        // Found opening div
-        depth++;
-        i = divStart + 4; // Move past '<div'
-      } else if (divEnd !== -1) {
-        // Found closing div
-        depth--;
-        if (depth === 0) {
-          return divEnd;
-        }
-        i = divEnd + 6; // Move past '</div>'
-      } else {
-        break;
+      if (source && !source.endsWith("\n")) {
+        source += "\n";
       }
+      source += node.type === "code" ? node.raw : node.value;
+      sourcePosition = {
+        start: sourcePosition?.start ?? node.position.start,
+        end: node.position.end,
+      };
     }
 
-    return -1; // No matching closing tag found
+    flushSource();
+    return html;
   }
 
   /**
-   * Process all blocks recursively to handle nesting
+   * Render Markdown source and pass the result through the sanitizer
+   * Anything the sanitizer removes is reported at the source range
    */
-  private static processAllBlocks(text: string): string {
-    // First, protect code blocks from Angle Block processing
-    const { protectedText, codeBlocks } = this.protectCodeBlocks(text);
-
-    let result = protectedText;
-    let hasChanges = true;
-    let iterations = 0;
-    const maxIterations = 20; // Prevent infinite loops
-
-    // Keep processing until no more blocks are found
-    while (hasChanges && iterations < maxIterations) {
-      hasChanges = false;
-      iterations++;
-
-      // Process Angle Blocks - keep processing until no more changes
-      const angleProcessed = this.processAngleBlocks(result);
-      if (angleProcessed !== result) {
-        result = angleProcessed;
-        hasChanges = true;
-      }
-    }
+  private renderMarkdown(
+    source: string,
+    position: SourcePosition,
+    context: RenderContext,
+    inline = false
+  ): string {
+    const html = (
+      inline ? this.marked.parseInline(source) : this.marked.parse(source)
+    ) as string;
+    if (!context.sanitizer) return html;
+
+    const removed = new Set<string>();
+    const sanitized = sanitizeHtml(html, context.sanitizer, (description) =>
+      removed.add(description)
+    );
 
-    // If we still have unprocessed Angle Blocks after max iterations,
-    // remove them to prevent breaking Markdown processing
-    if (result.includes("<>'")) {
-      console.warn(
-        "Removing unprocessed Angle Blocks to prevent Markdown parsing issues"
-      );
-      // Remove incomplete Angle Blocks and their content
-      result = result.replace(/<>'[^']*'[\s\S]*?(?=<>'|<\/>|$)/g, "");
-      // Remove any remaining closing tags that don't have matching opening tags
-      result = result.replace(/<\/>/g, "");
+    if (removed.size) {
+      context.diagnostics.push({
+        severity: "warning",
+        code: "unsafe-html",
+        message: `Removed unsafe HTML: ${Array.from(removed).join(", ")}`,
+        position,
+      });
     }
 
-    // Restore the protected code blocks
-    result = this.restoreCodeBlocks(result, codeBlocks);
-
-    return result;
+    return sanitized;
   }
 
   /**
-   * Process Angle Blocks: <>'classes'...content...</>
-   * Converts to <div class="classes">...content...</div>
-   * Supports nested blocks by processing recursively
+   * Page setup from the front matter (`page-size`, `orientation`,
+   * `margins`), overridden by whatever `options` set
    */
-  private static processAngleBlocks(text: string): string {
-    const angleBlockRegex = /<>'([^']+)'/g;
-    let result = text;
-    let match;
-
-    // Find and process the first (innermost) Angle Block
-    while ((match = angleBlockRegex.exec(result)) !== null) {
-      const fullMatch = match[0];
-      const startIndex = match.index;
-      const classes = match[1].trim();
-
-      // Find the matching closing tag
-      const closingIndex = this.findMatchingClosingTag(
-        result,
-        startIndex,
-        fullMatch
+  private resolvePage(
+    ast: MarkOverRoot,
+    options: PageSettings = {},
+    context: RenderContext
+  ): PageSettings {
+    const values = ast.frontMatter?.values ?? {};
+    const invalid = (message: string) =>
+      context.diagnostics.push({
+        severity: "warning",
+        code: "invalid-property",
+        message,
+        position: ast.frontMatter?.position ?? ast.position,
+      });
+    const isLength = (value: string) => toPixels(value) >= 0;
+    const page: PageSettings = {};
+
+    const size = values["page-size"]?.trim();
+    if (size) {
+      const name = (Object.keys(PAGE_SIZES) as PageSizeName[]).find(
+        (candidate) => candidate.toLowerCase() === size.toLowerCase()
       );
+      const dimensions = size.split(/\s+/);
+      if (name) {
+        page.size = name;
+      } else if (
+        dimensions.length === 2 &&
+        dimensions.every((dimension) => toPixels(dimension) > 0)
+      ) {
+        page.size = { width: dimensions[0], height: dimensions[1] };
+      } else {
+        invalid(
+          `Unknown page size "${size}"; use ${Object.keys(PAGE_SIZES).join(", ")} or a width and height such as "6in 9in"`
+        );
+      }
+    }
 
-      if (closingIndex !== -1) {
-        const contentStart = startIndex + fullMatch.length;
-        const actualContent = result.substring(contentStart, closingIndex);
-        const endIndex = closingIndex + 4; // Length of </>
-
-        // Process the content recursively
-        const processedContent = this.processAllBlocks(actualContent);
+    const orientation = values.orientation?.trim().toLowerCase();
+    if (orientation === "portrait" || orientation === "landscape") {
+      page.orientation = orientation;
+    } else if (orientation) {
+      invalid(
+        `Unknown orientation "${values.orientation}"; use portrait or landscape`
+      );
+    }
 
-        // Parse the content as Markdown
-        const parsedContent = marked.parse(processedContent) as string;
+    // One to four lengths, in CSS order
+    const margins = values.margins?.trim().split(/\s+/);
+    if (margins && margins.length <= 4 && margins.every(isLength)) {
+      const [top, right = top, bottom = top, left = right]: PageLength[] =
+        margins;
+      page.margins = { top, right, bottom, left };
+    } else if (margins) {
+      invalid(
+        `Page margins "${values.margins}" must be one to four lengths such as "20mm" or "1in 20mm"`
+      );
+    }
 
-        // Replace the block
-        const beforeBlock = result.substring(0, startIndex);
-        const afterBlock = result.substring(endIndex);
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) Object.assign(page, { [key]: value });
+    }
+    return page;
+  }
 
-        result =
-          beforeBlock +
-          `<div class="${classes}">${parsedContent}</div>` +
-          afterBlock;
+  /**
+   * Resolve the document's sections: the front matter opens the first and
+   * each `:::section` directive another
+   * Numbering and templates a section doesn't set carry over from the
+   * previous one
+   */
+  private resolveSections(
+    ast: MarkOverRoot,
+    context: RenderContext
+  ): DocumentSection[] {
+    const sections = [
+      this.resolveSection(
+        -1,
+        ast.frontMatter?.values ?? {},
+        ast.frontMatter?.position ?? ast.position,
+        DEFAULT_DOCUMENT_SECTION,
+        context
+      ),
+    ];
+    walkAst(ast, (node) => {
+      if (node.type !== "customBlock" || node.name !== "section") return;
+
+      for (const key of Object.keys(node.properties)) {
+        if (!SECTION_PROPERTY_REGEX.test(key)) {
+          context.diagnostics.push({
+            severity: "warning",
+            code: "invalid-property",
+            message: `Unsupported section property "${key}" was ignored`,
+            position: node.position,
+          });
+        }
+      }
+      if (parseNewPage(node.properties["new-page"]) === null) {
+        context.diagnostics.push({
+          severity: "warning",
+          code: "invalid-property",
+          message: `Section property new-page="${node.properties["new-page"]}" was ignored; use true or false`,
+          position: node.position,
+        });
+      }
+      sections.push(
+        this.resolveSection(
+          node.position.start.offset,
+          node.properties,
+          node.position,
+          sections[sections.length - 1],
+          context
+        )
+      );
+    });
+    return sections;
+  }
 
-        // Reset regex to start from the beginning
-        angleBlockRegex.lastIndex = 0;
-        break; // Process one block at a time
+  /**
+   * Resolve one section from front matter values or directive properties
+   * `numbering` sets the style and `start` restarts the counter.
+   * `header`/`footer` set the default template, `-first`, `-odd` and `-even`
+   * variants override it. Each is inline Markdown split into left, center
+   * and right parts by " | "; `none` switches it off
+   */
+  private resolveSection(
+    id: number,
+    values: Record<string, string>,
+    position: SourcePosition,
+    previous: DocumentSection,
+    context: RenderContext
+  ): DocumentSection {
+    const invalid = (message: string) =>
+      context.diagnostics.push({
+        severity: "warning",
+        code: "invalid-property",
+        message,
+        position,
+      });
+
+    let numbering = previous.numbering;
+    if (values.numbering !== undefined) {
+      if (PAGE_NUMBERINGS.includes(values.numbering as PageNumbering)) {
+        numbering = values.numbering as PageNumbering;
       } else {
-        // If no closing tag found, skip this block and continue
-        // This prevents breaking the rest of the content
-        console.warn("Angle Block not properly closed, skipping:", fullMatch);
-        break;
+        invalid(
+          `Unknown page numbering "${values.numbering}"; use ${PAGE_NUMBERINGS.join(", ")}`
+        );
       }
     }
 
-    return result;
-  }
+    let start: number | undefined;
+    if (values.start !== undefined) {
+      if (/^\d+$/.test(values.start.trim())) {
+        start = parseInt(values.start, 10);
+      } else {
+        invalid(`Page number start "${values.start}" is not a whole number`);
+      }
+    }
 
-  /**
-   * Find the matching closing tag for Angle Blocks
-   */
-  private static findMatchingClosingTag(
-    text: string,
-    startIndex: number,
-    openingTag: string
-  ): number {
-    // For Angle Blocks: find the next closing tag
-    // This handles both nested and multiple blocks at the same level
-    let depth = 1;
-    let i = startIndex + openingTag.length;
-
-    while (i < text.length && depth > 0) {
-      const remainingText = text.substring(i);
-
-      // Look for opening Angle Blocks (complete pattern)
-      const openingMatch = remainingText.search(/<>'[^']*'/);
-
-      // Look for closing Angle Blocks
-      const closingMatch = remainingText.search(/<\/>/);
-
-      // If both found, use the one that comes first
-      if (openingMatch !== -1 && closingMatch !== -1) {
-        if (openingMatch < closingMatch) {
-          // Found opening tag first, increment depth
-          depth++;
-          const match = remainingText.match(/<>'[^']*'/);
-          i += openingMatch + (match?.[0]?.length || 0);
-        } else {
-          // Found closing tag first, decrement depth
-          depth--;
-          if (depth === 0) {
-            return i + closingMatch;
-          }
-          i += closingMatch + 4; // Length of </>
-        }
-      } else if (openingMatch !== -1) {
-        // Only opening tag found
-        depth++;
-        const match = remainingText.match(/<>'[^']*'/);
-        i += openingMatch + (match?.[0]?.length || 0);
-      } else if (closingMatch !== -1) {
-        // Only closing tag found
-        depth--;
-        if (depth === 0) {
-          return i + closingMatch;
+    const renderTemplate = (source: string): RunningTemplate | null => {
+      if (source.trim().toLowerCase() === "none") return null;
+
+      const parts = source
+        .split(/\s+\|\s+/)
+        .map((part) => this.renderMarkdown(part, position, context, true));
+      // One part is centered, two go left and right
+      if (parts.length === 1) return ["", parts[0], ""];
+      if (parts.length === 2) return [parts[0], "", parts[1]];
+      return [parts[0], parts[1], parts.slice(2).join(" | ")];
+    };
+
+    const templates: PageTemplates = {
+      header: { ...previous.templates.header },
+      footer: { ...previous.templates.footer },
+    };
+    for (const kind of ["header", "footer"] as const) {
+      for (const variant of ["default", "first", "odd", "even"] as const) {
+        const key = variant === "default" ? kind : `${kind}-${variant}`;
+        const source = values[key];
+        if (source !== undefined) {
+          templates[kind][variant] = renderTemplate(source);
         }
-        i += closingMatch + 4; // Length of </>
-      } else {
-        // No more tags found
-        break;
       }
     }
-    return -1; // No matching closing tag found
+    return { id, numbering, start, templates };
   }
 
   /**
-   * Get the length of a closing tag for Angle Blocks
+   * Context handed to a plugin's hooks
+   * Diagnostics it reports get the plugin name as code prefix
    */
-  private static getClosingTagLength(_openingTag: string): number {
-    return 4; // Length of </>
+  private createPluginContext(
+    plugin: MarkOverPlugin,
+    source: string,
+    diagnostics: MarkOverDiagnostic[]
+  ): MarkOverPluginContext {
+    return {
+      source,
+      diagnostics,
+      report: ({ code, ...diagnostic }) => {
+        diagnostics.push({ ...diagnostic, code: `${plugin.name}/${code}` });
+      },
+    };
   }
 
   /**
-   * Split content into pages for paged view
-   * This implementation provides basic pagination by estimating content height
+   * Render escaped HTML attributes
    */
-  static splitIntoPages(html: string, pageHeight: number = 1123): string[] {
-    if (!html.trim()) return [""];
-
-    // For a more sophisticated implementation, we would:
-    // 1. Parse the HTML into a DOM structure
-    // 2. Calculate actual rendered heights
-    // 3. Split content while avoiding breaking elements
-    // 4. Handle page breaks intelligently
-
-    // For now, we'll estimate based on content length and split roughly
-    const estimatedContentHeight = this.estimateContentHeight(html);
-    const pagesNeeded = Math.max(
-      1,
-      Math.ceil(estimatedContentHeight / pageHeight)
-    );
+  private renderAttributes(attributes: Record<string, string>): string {
+    return Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+      .join("");
+  }
 
-    if (pagesNeeded === 1) {
-      return [html];
+  /**
+   * Render the opening <div> for a Flex Block
+   * Layout properties map to TailwindCSS classes, the pixel gap to a style.
+   * Also used by Markdown export
+   */
+  renderFlexOpeningTag(properties: FlexBlockProperties): string {
+    const classes = ["flex"];
+    if (properties.direction) {
+      classes.push(FLEX_DIRECTION_CLASSES[properties.direction]);
+    }
+    if (properties.wrap) classes.push(FLEX_WRAP_CLASSES[properties.wrap]);
+    if (properties.justify) {
+      classes.push(FLEX_JUSTIFY_CLASSES[properties.justify]);
     }
+    if (properties.align) classes.push(FLEX_ALIGN_CLASSES[properties.align]);
 
-    // Simple splitting by content length (not ideal but functional)
-    const contentPerPage = Math.ceil(html.length / pagesNeeded);
-    const pages: string[] = [];
-
-    for (let i = 0; i < pagesNeeded; i++) {
-      const start = i * contentPerPage;
-      const end = Math.min(start + contentPerPage, html.length);
-      let pageContent = html.slice(start, end);
-
-      // Try to break at reasonable points (end of tags, paragraphs, etc.)
-      if (i < pagesNeeded - 1 && end < html.length) {
-        const lastTagEnd = pageContent.lastIndexOf("</");
-        const lastParagraphEnd = pageContent.lastIndexOf("</p>");
-        const lastHeadingEnd = pageContent.lastIndexOf("</h");
-        const lastListEnd = pageContent.lastIndexOf("</ul>");
-        const lastOrderedListEnd = pageContent.lastIndexOf("</ol>");
-
-        const breakPoint = Math.max(
-          lastTagEnd,
-          lastParagraphEnd,
-          lastHeadingEnd,
-          lastListEnd,
-          lastOrderedListEnd
-        );
+    const style =
+      properties.gap !== undefined ? ` style="gap: ${properties.gap}px"` : "";
 
-        if (breakPoint > contentPerPage * 0.7) {
-          pageContent = pageContent.slice(0, breakPoint + 4); // Include closing tag
-        }
+    return `<div class="${classes.join(" ")}"${style}>`;
+  }
+
+  /**
+   * Parse Flex Block properties (justify=center align=center gap=8)
+   * Unknown properties and unsupported values are ignored and passed to
+   * `onInvalid`
+   */
+  private parseFlexProperties(
+    source: string,
+    onInvalid: (pair: string) => void
+  ): FlexBlockProperties {
+    const properties: FlexBlockProperties = {};
+
+    for (const pair of source.trim().split(/\s+/).filter(Boolean)) {
+      const [key, value] = pair.split("=");
+      if (!value) {
+        onInvalid(pair);
+        continue;
+      }
+
+      switch (key) {
+        case "justify":
+          if (hasOwn(FLEX_JUSTIFY_CLASSES, value)) {
+            properties.justify = value as FlexBlockProperties["justify"];
+            continue;
+          }
+          break;
+        case "align":
+          if (hasOwn(FLEX_ALIGN_CLASSES, value)) {
+            properties.align = value as FlexBlockProperties["align"];
+            continue;
+          }
+          break;
+        case "direction":
+          if (hasOwn(FLEX_DIRECTION_CLASSES, value)) {
+            properties.direction = value as FlexBlockProperties["direction"];
+            continue;
+          }
+          break;
+        case "wrap":
+          if (hasOwn(FLEX_WRAP_CLASSES, value)) {
+            properties.wrap = value as FlexBlockProperties["wrap"];
+            continue;
+          }
+          break;
+        case "gap":
+          if (/^\d+(\.\d+)?$/.test(value)) {
+            properties.gap = parseFloat(value);
+            continue;
+          }
+          break;
       }
 
-      pages.push(pageContent);
+      onInvalid(pair);
     }
 
-    return pages;
+    return properties;
   }
 
   /**
-   * Estimate content height based on HTML content
+   * Match front matter at the very start of the document:
+   *   ---
+   *   title: Quarterly Report
+   *   footer: "Confidential | Page {page} of {pages}"
+   *   ---
+   * Blank lines and # comments are skipped, other lines that aren't
+   * `key: value` are passed to `onInvalid`. Returns null when there is no
+   * closing --- line
    */
-  private static estimateContentHeight(html: string): number {
-    // Rough estimation based on content analysis
-    let estimatedHeight = 0;
+  private matchFrontMatter(
+    text: string,
+    onInvalid: (start: number, end: number) => void
+  ): { values: Record<string, string>; end: number } | null {
+    const firstLineEnd = this.lineEnd(text, 0);
+    if (!/^---[ \t]*$/.test(text.substring(0, firstLineEnd))) return null;
+
+    const values: Record<string, string> = {};
+    const invalid: [number, number][] = [];
+    let cursor = firstLineEnd + 1;
+
+    while (cursor <= text.length) {
+      const lineEnd = this.lineEnd(text, cursor);
+      const line = text.substring(cursor, lineEnd);
+
+      if (/^---[ \t]*$/.test(line)) {
+        for (const [start, end] of invalid) onInvalid(start, end);
+        return { values, end: Math.min(lineEnd + 1, text.length) };
+      }
+
+      const entry = /^([A-Za-z][\w-]*)[ \t]*:[ \t]*(.*?)[ \t]*$/.exec(line);
+      if (entry) {
+        const quoted = /^(["'])(.*)\1$/.exec(entry[2]);
+        values[entry[1].toLowerCase()] = quoted ? quoted[2] : entry[2];
+      } else if (line.trim() && !line.trim().startsWith("#")) {
+        invalid.push([cursor, lineEnd]);
+      }
+      cursor = lineEnd + 1;
+    }
 
-    // Count different elements and estimate their heights
-    const headingMatches = html.match(/<h[1-6][^>]*>/g) || [];
-    estimatedHeight += headingMatches.length * 40; // ~40px per heading
+    return null;
+  }
 
-    const paragraphMatches = html.match(/<p[^>]*>/g) || [];
-    estimatedHeight += paragraphMatches.length * 60; // ~60px per paragraph
+  /**
+   * Match an Angle Block attribute list following an opener on the same line:
+   *   {#intro tag=section data-role=summary style="color: red"}
+   * `#name` is shorthand for id=name. Returns null when there is no
+   * complete attribute list
+   */
+  private matchAngleAttributes(
+    text: string,
+    index: number
+  ): { entries: [string, string | null][]; end: number } | null {
+    const line = text.substring(index, this.lineEnd(text, index));
+    const open = /^[ \t]*\{/.exec(line);
+    if (!open) return null;
+
+    const entries: [string, string | null][] = [];
+    let j = open[0].length;
+
+    while (j < line.length) {
+      while (line[j] === " " || line[j] === "\t") j++;
+      if (line[j] === "}") return { entries, end: index + j + 1 };
+
+      const name = /^#?[^\s=}"']+/.exec(line.substring(j));
+      if (!name) return null;
+      j += name[0].length;
+
+      if (name[0].startsWith("#")) {
+        entries.push(["id", name[0].slice(1)]);
+        continue;
+      }
+      if (line[j] !== "=") {
+        entries.push([name[0], null]);
+        continue;
+      }
+      j++;
+
+      const quote = line[j];
+      if (quote === '"' || quote === "'") {
+        const close = line.indexOf(quote, j + 1);
+        if (close === -1) return null;
+        entries.push([name[0], line.substring(j + 1, close)]);
+        j = close + 1;
+      } else {
+        const value = /^[^\s}]*/.exec(line.substring(j))![0];
+        entries.push([name[0], value]);
+        j += value.length;
+      }
+    }
+
+    return null;
+  }
 
-    const listMatches = html.match(/<(ul|ol)[^>]*>/g) || [];
-    estimatedHeight += listMatches.length * 100; // ~100px per list
+  /**
+   * Validate Angle Block attributes against the allowed tags and attributes
+   * Anything rejected is passed to `onInvalid` and left out
+   */
+  private resolveAngleAttributes(
+    entries: [string, string | null][],
+    onInvalid: (message: string) => void
+  ): { tag: string; attributes: Record<string, string> } {
+    let tag = "div";
+    const attributes: Record<string, string> = {};
+
+    for (const [rawName, value] of entries) {
+      const name = rawName.toLowerCase();
+
+      if (name === "tag") {
+        const requested = (value ?? "").toLowerCase();
+        if (ANGLE_BLOCK_TAGS.has(requested)) {
+          tag = requested;
+        } else {
+          onInvalid(
+            `Unsupported Angle Block tag "${value ?? ""}"; rendering as <div>`
+          );
+        }
+        continue;
+      }
 
-    const imageMatches = html.match(/<img[^>]*>/g) || [];
-    estimatedHeight += imageMatches.length * 200; // ~200px per image
+      const allowed =
+        /^[a-z][a-z0-9-]*$/.test(name) &&
+        ANGLE_BLOCK_ATTRIBUTES.some((pattern) =>
+          pattern.endsWith("*")
+            ? name.startsWith(pattern.slice(0, -1))
+            : name === pattern
+        );
+      if (!allowed || value === null) {
+        onInvalid(`Unsupported Angle Block attribute "${rawName}" was ignored`);
+        continue;
+      }
 
-    const codeBlockMatches = html.match(/<pre[^>]*>/g) || [];
-    estimatedHeight += codeBlockMatches.length * 150; // ~150px per code block
+      if (name === "id" && !/^[A-Za-z][\w:.-]*$/.test(value)) {
+        onInvalid(`Invalid Angle Block id "${value}" was ignored`);
+        continue;
+      }
 
-    const blockquoteMatches = html.match(/<blockquote[^>]*>/g) || [];
-    estimatedHeight += blockquoteMatches.length * 80; // ~80px per blockquote
+      if (name === "style" && !isSafeStyle(value)) {
+        onInvalid("Unsafe Angle Block style was ignored");
+        continue;
+      }
 
-    // Add base height for other content
-    estimatedHeight += 200;
+      attributes[name] = value;
+    }
 
-    return estimatedHeight;
+    return { tag, attributes };
   }
 
   /**
-   * Get page count for given content
+   * Match a fenced code block starting at the given line start
+   * Follows CommonMark: the fence is 3+ backticks or tildes, the closing
+   * fence uses the same character and is at least as long, and a backtick
+   * fence can't have backticks in its info string. Indentation isn't
+   * limited to 3 spaces so fences inside list items are protected too.
+   * Unclosed fences run to the end of the document
    */
-  static getPageCount(html: string, pageHeight: number = 1123): number {
-    return this.splitIntoPages(html, pageHeight).length;
+  private matchFencedCode(
+    text: string,
+    lineStart: number
+  ): (Omit<CodeNode, "position"> & { end: number }) | null {
+    const openLineEnd = this.lineEnd(text, lineStart);
+    const openMatch = /^([ \t]*)(`{3,}|~{3,})(.*)$/.exec(
+      text.substring(lineStart, openLineEnd)
+    );
+    if (!openMatch) return null;
+
+    const [, indent, fence, info] = openMatch;
+    if (fence[0] === "`" && info.includes("`")) return null;
+
+    const closingFence = new RegExp(
+      `^[ \\t]*\\${fence[0]}{${fence.length},}[ \\t]*$`
+    );
+    const indentRegex = new RegExp(`^ {0,${indent.length}}`);
+    const lines: string[] = [];
+    let end = text.length;
+    let cursor = openLineEnd + 1;
+
+    while (cursor <= text.length) {
+      const lineEnd = this.lineEnd(text, cursor);
+      const line = text.substring(cursor, lineEnd);
+      if (closingFence.test(line)) {
+        end = lineEnd;
+        break;
+      }
+      lines.push(line.replace(indentRegex, ""));
+      cursor = lineEnd + 1;
+    }
+
+    return {
+      type: "code",
+      lang: info.trim().split(/\s+/)[0] || "",
+      value: lines.join("\n"),
+      raw: text.substring(lineStart, end),
+      end,
+    };
   }
 
   /**
-   * Protect code blocks from Angle Block processing
-   * Replaces code blocks with placeholders to prevent interference
+   * Match an indented code block (4+ spaces or a tab) at the given line start
+   * Indented code can't interrupt a paragraph, so it has to follow a blank
+   * line or the start of its block (`containerStart`). Indented lines after
+   * a list are list item continuations, not code
    */
-  private static protectCodeBlocks(text: string): {
-    protectedText: string;
-    codeBlocks: string[];
-  } {
-    const codeBlocks: string[] = [];
-    let protectedText = text;
-
-    // Protect inline code blocks (backticks)
-    protectedText = protectedText.replace(/`([^`]+)`/g, (match) => {
-      const placeholder = `__INLINE_CODE_${codeBlocks.length}__`;
-      codeBlocks.push(match);
-      return placeholder;
-    });
+  private matchIndentedCode(
+    text: string,
+    lineStart: number,
+    containerStart: number
+  ): (Omit<CodeNode, "position"> & { end: number }) | null {
+    const firstLine = text.substring(lineStart, this.lineEnd(text, lineStart));
+    if (!/^( {4}|\t)/.test(firstLine) || !firstLine.trim()) return null;
+
+    // Walk back over the preceding lines of the same block
+    let previousEnd = lineStart - 1;
+    let directlyAfter = true;
+    while (previousEnd >= containerStart && previousEnd >= 0) {
+      const previousStart = Math.max(
+        text.lastIndexOf("\n", previousEnd - 1) + 1,
+        containerStart
+      );
+      const previous = text.substring(previousStart, previousEnd);
+      if (previous.trim()) {
+        if (directlyAfter) return null;
+        if (/^\s/.test(previous) || LIST_ITEM_REGEX.test(previous)) {
+          return null;
+        }
+        break;
+      }
+      directlyAfter = false;
+      previousEnd = previousStart - 1;
+    }
 
-    // Protect fenced code blocks (triple backticks)
-    protectedText = protectedText.replace(/```[\s\S]*?```/g, (match) => {
-      const placeholder = `__FENCED_CODE_${codeBlocks.length}__`;
-      codeBlocks.push(match);
-      return placeholder;
-    });
+    // The block runs over indented and blank lines, ending at the last
+    // indented one
+    const lines: string[] = [];
+    let lineCount = 0;
+    let end = lineStart;
+    let cursor = lineStart;
+
+    while (cursor <= text.length) {
+      const lineEnd = this.lineEnd(text, cursor);
+      const line = text.substring(cursor, lineEnd);
+      if (line.trim() && !/^( {4}|\t)/.test(line)) break;
+
+      lines.push(line.replace(/^( {4}|\t)/, ""));
+      if (line.trim()) {
+        end = lineEnd;
+        lineCount = lines.length;
+      }
+      cursor = lineEnd + 1;
+    }
 
-    return { protectedText, codeBlocks };
+    return {
+      type: "code",
+      lang: "",
+      value: lines.slice(0, lineCount).join("\n"),
+      raw: text.substring(lineStart, end),
+      end,
+    };
   }
 
   /**
-   * Restore code blocks after Angle Block processing
-   * Replaces placeholders with original code block content
+   * Find the end of an inline code span starting at the given backtick
+   * The closing run must have the same length and the span can't cross a
+   * blank line or a code fence. Returns the index after the span, or after
+   * the backtick run when there is no matching closing run
    */
-  private static restoreCodeBlocks(text: string, codeBlocks: string[]): string {
-    let result = text;
-
-    // Restore inline code blocks
-    result = result.replace(/__INLINE_CODE_(\d+)__/g, (match, index) => {
-      return codeBlocks[parseInt(index)] || match;
-    });
+  private matchInlineCode(text: string, index: number): number {
+    let runEnd = index;
+    while (text[runEnd] === "`") runEnd++;
+    const run = text.substring(index, runEnd);
+
+    const boundary = /\n[ \t]*(?:\n|`{3,}|~{3,})/g;
+    boundary.lastIndex = runEnd;
+    const limit = boundary.exec(text)?.index ?? text.length;
+
+    let search = runEnd;
+    while (search < limit) {
+      const close = text.indexOf(run, search);
+      if (close === -1 || close + run.length > limit) break;
+
+      let closeEnd = close + run.length;
+      if (text[closeEnd] !== "`") {
+        return closeEnd;
+      }
+      // Longer backtick runs don't close this span
+      while (text[closeEnd] === "`") closeEnd++;
+      search = closeEnd;
+    }
 
-    // Restore fenced code blocks
-    result = result.replace(/__FENCED_CODE_(\d+)__/g, (match, index) => {
-      return codeBlocks[parseInt(index)] || match;
-    });
+    return runEnd;
+  }
 
-    return result;
+  /**
+   * Index of the newline ending the line that contains `index`
+   * (or the text length for the last line)
+   */
+  private lineEnd(text: string, index: number): number {
+    const newline = text.indexOf("\n", index);
+    return newline === -1 ? text.length : newline;
   }
 }
 
@@ -459,6 +1464,8 @@ Angle Blocks use the syntax \`<>'classes'...content...</>\` to apply TailwindCSS
 ![Sample Image](https://dummyimage.com/200x120/3b82f6/ffffff.png&text=Logo)
 </>
 
+Inline spans style text inside a paragraph: this is <>'text-red-600 font-bold'[critical], and this is <>'bg-yellow-200 px-1 rounded'[highlighted *with emphasis*].
+
 ## Flex Layouts with Angle Blocks
 
 You can create flex layouts using Angle Blocks with TailwindCSS flex classes:
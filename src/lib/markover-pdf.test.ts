@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { resolvePageLayout } from "./markover-page";
+import { renderPrintDocument } from "./markover-pdf";
+
+describe("renderPrintDocument", () => {
+  const layout = resolvePageLayout({ size: "Letter", margins: "1in" });
+  const html = renderPrintDocument(
+    [
+      { html: "<p>one</p>", header: "<div>Head</div>", footer: null },
+      { html: "<p>two</p>", header: null, footer: "<div>Page 2</div>" },
+    ],
+    { layout, title: "A <title>", css: ".x{}</style><script>" }
+  );
+
+  it("prints one page-sized box per page", () => {
+    expect(html).toContain("@page { size: 816px 1056px; margin: 0; }");
+    expect(html.match(/class="markover-page"/g)).toHaveLength(2);
+    expect(html).toContain('class="markover-page-header"');
+    expect(html).toContain('class="markover-page-footer"');
+  });
+
+  it("lets a page grow instead of clipping it", () => {
+    expect(html).toContain("min-height: 1056px;");
+    expect(html).not.toContain("overflow: hidden");
+  });
+
+  it("escapes the title and keeps the styles in their element", () => {
+    expect(html).toContain("<title>A &lt;title&gt;</title>");
+    expect(html).not.toContain("</style><script>");
+  });
+});
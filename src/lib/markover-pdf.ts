@@ -0,0 +1,205 @@
+/**
+ * PDF export through the browser's print pipeline
+ *
+ * The document is paginated exactly like the paged view, each page is laid
+ * out at its page size in a hidden iframe and the iframe is printed; "Save
+ * as PDF" in the print dialog writes the file. Nothing is rasterized, so
+ * text stays selectable and links keep working, and nothing leaves the
+ * browser. Browser only.
+ */
+
+import { DEFAULT_PAGE_LAYOUT, type PageLayout } from "./markover-page";
+import { paginateHtml, waitForResources } from "./markover-paginator";
+import { renderPageRunningElements } from "./markover-running";
+import { escapeAttribute, escapeHtml } from "./markover-sanitizer";
+import {
+  DEFAULT_DOCUMENT_SECTION,
+  numberPages,
+  type DocumentSection,
+} from "./markover-sections";
+
+export interface PdfExportOptions {
+  layout?: PageLayout;
+  sections?: DocumentSection[];
+  /** Document title, used for `{title}` and as the suggested file name */
+  title?: string;
+  date?: string;
+  /** Compiled TailwindCSS for the classes used in the document */
+  css?: string;
+}
+
+/**
+ * One printed page with its running header and footer
+ */
+export interface PrintPage {
+  html: string;
+  header: string | null;
+  footer: string | null;
+}
+
+/**
+ * Paginate rendered HTML and open the print dialog for it
+ * Resolves once the dialog has closed
+ */
+export async function exportPdf(
+  html: string,
+  {
+    layout = DEFAULT_PAGE_LAYOUT,
+    sections = [DEFAULT_DOCUMENT_SECTION],
+    title = "",
+    date,
+    css = "",
+  }: PdfExportOptions = {}
+): Promise<void> {
+  const pages = await paginateHtml(html, layout);
+  const numbers = numberPages(pages, sections);
+  const runningElements = renderPageRunningElements(pages, numbers, {
+    title,
+    date,
+  });
+  // The app's stylesheets and font classes, so pages look like the preview
+  const head = Array.from(
+    document.head.querySelectorAll('link[rel="stylesheet"], style')
+  )
+    .map((element) => element.outerHTML)
+    .join("");
+
+  await printDocument(
+    renderPrintDocument(
+      pages.map((pageHtml, index) => ({
+        html: pageHtml,
+        ...runningElements[index],
+      })),
+      { layout, title, css, head, bodyClassName: document.body.className }
+    )
+  );
+}
+
+/**
+ * Standalone HTML document with one page-sized box per page
+ * The `@page` rule matches the page size and has no margin, because the
+ * page margins are already part of every box. As in the paged view, a box
+ * grows for a block taller than a page and continues on the next sheet.
+ * `head` is added before the document's own styles
+ */
+export function renderPrintDocument(
+  pages: PrintPage[],
+  {
+    layout = DEFAULT_PAGE_LAYOUT,
+    title = "",
+    css = "",
+    head = "",
+    bodyClassName = "",
+  }: {
+    layout?: PageLayout;
+    title?: string;
+    css?: string;
+    head?: string;
+    bodyClassName?: string;
+  } = {}
+): string {
+  const { width, height, margins } = layout;
+  const padding = `0 ${margins.right}px 0 ${margins.left}px`;
+
+  const body = pages
+    .map(
+      (page) =>
+        `<div class="markover-page">${
+          page.header
+            ? `<div class="markover-page-header" style="height: ${margins.top}px; padding: ${padding}">${page.header}</div>`
+            : ""
+        }<div style="padding: ${margins.top}px ${margins.right}px ${margins.bottom}px ${margins.left}px"><div class="markover-content">${
+          page.html
+        }</div></div>${
+          page.footer
+            ? `<div class="markover-page-footer" style="height: ${margins.bottom}px; padding: ${padding}">${page.footer}</div>`
+            : ""
+        }</div>`
+    )
+    .join("");
+
+  const printCss = `
+@page { size: ${width}px ${height}px; margin: 0; }
+html, body { margin: 0; padding: 0; background: #fff; }
+body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.markover-page {
+  position: relative;
+  box-sizing: border-box;
+  width: ${width}px;
+  min-height: ${height}px;
+  break-after: page;
+}
+.markover-page:last-child { break-after: auto; }
+/* Pages are already split; breaks inside them must not add more, and an
+   oversized page is cut wherever the sheet ends */
+.markover-page * {
+  break-before: auto !important;
+  break-after: auto !important;
+  break-inside: auto !important;
+}
+.markover-page-header, .markover-page-footer {
+  position: absolute;
+  left: 0;
+  right: 0;
+  box-sizing: border-box;
+}
+.markover-page-header { top: 0; }
+.markover-page-footer { bottom: 0; }
+`;
+
+  const styles = `${css}\n${printCss}`.replace(/<\/style/gi, "\\3c /style");
+  return [
+    '<!DOCTYPE html><html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>${head}<style>${styles}</style>`,
+    `</head><body class="${escapeAttribute(bodyClassName)}">${body}</body></html>`,
+  ].join("");
+}
+
+/** Longest wait for the print dialog before the iframe is removed */
+const PRINT_TIMEOUT = 60_000;
+
+/**
+ * Print an HTML document from a hidden iframe
+ * Resolves once images and fonts have loaded and the print dialog has
+ * closed, or after `PRINT_TIMEOUT`. The iframe is always removed
+ */
+export async function printDocument(html: string): Promise<void> {
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("aria-hidden", "true");
+  Object.assign(iframe.style, {
+    position: "fixed",
+    right: "0",
+    bottom: "0",
+    width: "0",
+    height: "0",
+    border: "0",
+  });
+
+  try {
+    await new Promise<void>((resolve) => {
+      iframe.addEventListener("load", () => resolve(), { once: true });
+      iframe.srcdoc = html;
+      document.body.appendChild(iframe);
+    });
+
+    const frameWindow = iframe.contentWindow!;
+    await waitForResources(frameWindow.document.body);
+    await new Promise<void>((resolve) => {
+      // Some browsers (Safari) never fire afterprint for an iframe, so the
+      // page getting focus back or a timeout also ends the wait
+      const done = () => {
+        clearTimeout(timer);
+        frameWindow.removeEventListener("afterprint", done);
+        window.removeEventListener("focus", done);
+        resolve();
+      };
+      const timer = setTimeout(done, PRINT_TIMEOUT);
+      frameWindow.addEventListener("afterprint", done);
+      frameWindow.focus();
+      window.addEventListener("focus", done);
+      frameWindow.print();
+    });
+  } finally {
+    iframe.remove();
+  }
+}
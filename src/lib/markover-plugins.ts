@@ -0,0 +1,65 @@
+/**
+ * MarkOver plugin API
+ *
+ * Plugins package custom syntax without forking the parser: block types
+ * recognized by the block scanner, marked extensions for inline syntax,
+ * and post-processors for the AST and the rendered HTML.
+ */
+
+import type { MarkedExtension } from "marked";
+import type { CustomBlockNode, MarkOverRoot } from "./markover-ast";
+import type { MarkOverDiagnostic } from "./markover-diagnostics";
+
+/**
+ * Passed to every plugin hook
+ */
+export interface MarkOverPluginContext {
+  /** The MarkOver source being parsed */
+  source: string;
+  /** Diagnostics reported so far, by the parser and by other plugins */
+  diagnostics: readonly MarkOverDiagnostic[];
+  /** Report a problem; the code is prefixed with the plugin name */
+  report(diagnostic: Omit<MarkOverDiagnostic, "code"> & { code: string }): void;
+}
+
+/**
+ * Custom block type
+ *   fenced: :::name {key=value} ... content ... :::
+ *   angle:  <>name {key=value} ... content ... </>
+ * Properties use the same `{...}` list as Angle Block attributes
+ */
+export interface MarkOverBlockType {
+  /** Lowercase name used in the opener, e.g. "callout" */
+  name: string;
+  /** Opener and closer style (default: "fenced") */
+  syntax?: "fenced" | "angle";
+  /** Leaf blocks are a single opener with no content or closer */
+  leaf?: boolean;
+  /**
+   * Render the block around its already rendered `children`
+   * The result is not sanitized: escape property values before use
+   */
+  render(
+    node: CustomBlockNode,
+    children: string,
+    context: MarkOverPluginContext
+  ): string;
+}
+
+export interface MarkOverPlugin {
+  /** Unique name, also used to prefix the plugin's diagnostic codes */
+  name: string;
+  /**
+   * Plugins run in ascending order (default: 0); plugins with the same
+   * order run in registration order
+   */
+  order?: number;
+  /** Block types recognized by the block scanner */
+  blocks?: MarkOverBlockType[];
+  /** marked extensions for inline syntax (tokenizers, renderers, hooks) */
+  markdown?: MarkedExtension[];
+  /** Inspect or rewrite the syntax tree after parsing */
+  transformAst?(root: MarkOverRoot, context: MarkOverPluginContext): void;
+  /** Rewrite the rendered HTML; runs after sanitizing */
+  transformHtml?(html: string, context: MarkOverPluginContext): string;
+}
@@ -0,0 +1,168 @@
+/**
+ * Running headers and footers
+ *
+ * Templates come from the document's front matter and section directives
+ * and are rendered once by the parser; page variables are filled in per page
+ * by the paged view and by export, so both show the same headers and
+ * footers.
+ */
+
+import { escapeHtml } from "./markover-sanitizer";
+import type { PageNumber } from "./markover-sections";
+
+/**
+ * Rendered template split into left, center and right parts
+ */
+export type RunningTemplate = [left: string, center: string, right: string];
+
+/**
+ * Template variants; `first` (the first page of a section) wins over `odd`,
+ * and unset variants fall back to `default`. `null` switches the header or
+ * footer off
+ */
+export interface RunningTemplateSet {
+  default: RunningTemplate | null;
+  first?: RunningTemplate | null;
+  odd?: RunningTemplate | null;
+  even?: RunningTemplate | null;
+}
+
+export interface PageTemplates {
+  header: RunningTemplateSet;
+  footer: RunningTemplateSet;
+}
+
+/**
+ * Values for `{page}`, `{pages}`, `{title}`, `{section}` and `{date}`
+ */
+export interface PageVariables {
+  page: string;
+  pages: string;
+  title: string;
+  section: string;
+  date: string;
+}
+
+export const DEFAULT_PAGE_TEMPLATES: PageTemplates = {
+  header: { default: null },
+  footer: { default: ["", "Page {page} of {pages}", ""] },
+};
+
+/**
+ * Pick the template for a page from its section's templates
+ * Odd and even follow the page number, not the position in the document.
+ * Returns null when the page has none or suppresses it with
+ * `:::no-header` / `:::no-footer`
+ */
+export function selectTemplate(
+  kind: keyof PageTemplates,
+  pageNumber: PageNumber,
+  pageHtml: string
+): RunningTemplate | null {
+  // Serialized pages write the attribute as `data-no-header=""`
+  if (new RegExp(`<div data-no-${kind}(?:=""|[\\s>])`).test(pageHtml)) {
+    return null;
+  }
+
+  const set = pageNumber.section.templates[kind];
+  let template: RunningTemplate | null | undefined;
+  if (pageNumber.firstInSection) template = set.first;
+  if (template === undefined) {
+    template = pageNumber.value % 2 === 0 ? set.even : set.odd;
+  }
+  return template === undefined ? set.default : template;
+}
+
+/**
+ * Render a running header or footer for one page
+ */
+export function renderRunningElement(
+  kind: keyof PageTemplates,
+  template: RunningTemplate,
+  variables: PageVariables
+): string {
+  const parts = template
+    .map((part) => `<div>${fillVariables(part, variables)}</div>`)
+    .join("");
+  return `<div class="markover-running" data-running="${kind}">${parts}</div>`;
+}
+
+/**
+ * Replace page variables in rendered template HTML
+ * Unknown variables are left as they are
+ */
+export function fillVariables(html: string, variables: PageVariables): string {
+  return html.replace(/\{(page|pages|title|section|date)\}/g, (_, name) =>
+    escapeHtml(variables[name as keyof PageVariables])
+  );
+}
+
+/**
+ * The section each page belongs to: the first h1/h2 on the page, or the
+ * last one before it. Headings continued from a previous page don't count
+ */
+export function getSectionTitles(pages: string[]): string[] {
+  let current = "";
+  return pages.map((pageHtml) => {
+    const headings = Array.from(
+      pageHtml.matchAll(/<h([12])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi)
+    ).filter((match) => !/\sdata-continued/.test(match[2] ?? ""));
+
+    const section = headings.length ? htmlToText(headings[0][3]) : current;
+    if (headings.length) {
+      current = htmlToText(headings[headings.length - 1][3]);
+    }
+    return section;
+  });
+}
+
+/**
+ * Text of the first h1 in rendered HTML, used when there is no title in
+ * the front matter
+ */
+export function extractTitle(html: string): string {
+  const heading = /<h1(?:\s[^>]*)?>([\s\S]*?)<\/h1>/i.exec(html);
+  return heading ? htmlToText(heading[1]) : "";
+}
+
+/**
+ * Header and footer HTML for every page, null where a page has none
+ * `numbers` come from `numberPages`; `{pages}` is the total page count.
+ * `date` defaults to today's date in the user's locale
+ */
+export function renderPageRunningElements(
+  pages: string[],
+  numbers: PageNumber[],
+  {
+    title,
+    date = new Date().toLocaleDateString(),
+  }: { title: string; date?: string }
+): { header: string | null; footer: string | null }[] {
+  const sectionTitles = getSectionTitles(pages);
+
+  return pages.map((pageHtml, index) => {
+    const variables: PageVariables = {
+      page: numbers[index].label,
+      pages: String(pages.length),
+      title,
+      section: sectionTitles[index],
+      date,
+    };
+    const render = (kind: keyof PageTemplates) => {
+      const template = selectTemplate(kind, numbers[index], pageHtml);
+      return template && renderRunningElement(kind, template, variables);
+    };
+    return { header: render("header"), footer: render("footer") };
+  });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
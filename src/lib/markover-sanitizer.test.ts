@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { MarkOverParser } from "./markover-parser";
+import { isSafeStyle, sanitizeHtml } from "./markover-sanitizer";
+
+const sanitize = (html: string) => {
+  const removed: string[] = [];
+  return {
+    html: sanitizeHtml(html, undefined, (description) =>
+      removed.push(description)
+    ),
+    removed,
+  };
+};
+
+describe("sanitizeHtml", () => {
+  it.each([
+    ["<script>alert(1)</script>ok", "ok"],
+    ["<SCRIPT SRC=x></SCRIPT>k", "k"],
+    ["<style>body{}</style>y", "y"],
+    ['<iframe src="x"></iframe>after', "after"],
+    ["<svg><script>alert(1)</script></svg>", ""],
+    ["<scr<script>ipt>alert(1)</script>", "&lt;scr"],
+    ["<!-- <script>alert(1)</script> -->z", "z"],
+  ])("removes dangerous elements from %j", (html, expected) => {
+    expect(sanitize(html).html).toBe(expected);
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "  JaVaScRiPt:alert(1)",
+    "jav&#x61;script:alert(1)",
+    "java\tscript:alert(1)",
+    "javascript&colon;alert(1)",
+    "data:text/html,<script>",
+  ])("drops the unsafe URL %j", (url) => {
+    const { html, removed } = sanitize(`<a href="${url}">x</a>`);
+    expect(html).toBe("<a>x</a>");
+    expect(removed).toEqual(["href attribute on <a>"]);
+  });
+
+  it("drops event handlers", () => {
+    expect(sanitize("<img src=x onerror=alert(1)>").html).toBe('<img src="x">');
+    expect(sanitize('<p onclick="x" class="c">t</p>').html).toBe(
+      '<p class="c">t</p>'
+    );
+  });
+
+  it("drops unsafe inline styles", () => {
+    expect(
+      sanitize('<div style="background:url(javascript:alert(1))">x</div>').html
+    ).toBe("<div>x</div>");
+    expect(isSafeStyle("width: expression(alert(1))")).toBe(false);
+    expect(isSafeStyle("@import url(x.css)")).toBe(false);
+    expect(isSafeStyle("color: red; gap: 4px")).toBe(true);
+  });
+
+  it("keeps safe markup and re-escapes attribute values", () => {
+    expect(
+      sanitize('<a href="https://x.com" title="a&quot;b">ok</a>').html
+    ).toBe('<a href="https://x.com" title="a&quot;b">ok</a>');
+    expect(sanitize('<div data-x="1" aria-label="l" id="i">q</div>').html).toBe(
+      '<div data-x="1" aria-label="l" id="i">q</div>'
+    );
+  });
+
+  it("keeps inline images but no other data URLs", () => {
+    expect(sanitize('<img src="data:image/png;base64,AAA">').html).toBe(
+      '<img src="data:image/png;base64,AAA">'
+    );
+    expect(sanitize('<img src="data:image/svg+xml,<svg>">').html).toBe("<img>");
+  });
+
+  it("escapes stray angle brackets in text", () => {
+    expect(sanitize("a < b > c").html).toBe("a &lt; b &gt; c");
+  });
+});
+
+describe("parse", () => {
+  const parser = new MarkOverParser();
+
+  it("sanitizes raw HTML in Markdown and reports it", () => {
+    const result = parser.parse('<img src=x onerror="alert(1)">');
+    expect(result.html).not.toContain("onerror");
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "unsafe-html",
+    ]);
+  });
+
+  it("can be turned off", () => {
+    const result = parser.parse("<b onclick=x>b</b>", {
+      mode: "web",
+      zoom: 100,
+      sanitize: false,
+    });
+    expect(result.html).toContain("onclick");
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * HTML sanitizer for rendered MarkOver output
+ *
+ * `marked` passes raw HTML straight through, so documents from other authors
+ * can carry scripts and event handlers. Everything that is not on the
+ * allowlist is removed and all kept attribute values are re-escaped.
+ */
+
+export interface SanitizerOptions {
+  /** Tags that are kept; everything else is unwrapped or removed */
+  allowedTags: string[];
+  /**
+   * Attributes kept per tag, `*` applies to every tag.
+   * Names ending in `*` match a prefix (e.g. `data-*`)
+   */
+  allowedAttributes: Record<string, string[]>;
+  /** URL schemes allowed in href/src-like attributes */
+  allowedSchemes: string[];
+  /** Tags removed together with their content */
+  droppedContentTags: string[];
+}
+
+/**
+ * `true`/undefined sanitizes with the defaults, `false` disables the stage,
+ * an object overrides individual default lists
+ */
+export type MarkOverSanitizeOption = boolean | Partial<SanitizerOptions>;
+
+export const defaultSanitizerOptions: SanitizerOptions = {
+  allowedTags: [
+    "a",
+    "abbr",
+    "article",
+    "aside",
+    "b",
+    "blockquote",
+    "br",
+    "caption",
+    "cite",
+    "code",
+    "col",
+    "colgroup",
+    "dd",
+    "del",
+    "details",
+    "div",
+    "dl",
+    "dt",
+    "em",
+    "figcaption",
+    "figure",
+    "footer",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "header",
+    "hr",
+    "i",
+    "img",
+    "input",
+    "ins",
+    "kbd",
+    "li",
+    "main",
+    "mark",
+    "nav",
+    "ol",
+    "p",
+    "pre",
+    "q",
+    "s",
+    "samp",
+    "section",
+    "small",
+    "span",
+    "strong",
+    "sub",
+    "summary",
+    "sup",
+    "table",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "time",
+    "tr",
+    "u",
+    "ul",
+    "var",
+  ],
+  allowedAttributes: {
+    "*": [
+      "class",
+      "id",
+      "title",
+      "lang",
+      "dir",
+      "role",
+      "style",
+      "data-*",
+      "aria-*",
+    ],
+    a: ["href", "name", "target", "rel"],
+    blockquote: ["cite"],
+    col: ["span"],
+    del: ["cite", "datetime"],
+    details: ["open"],
+    img: ["src", "alt", "width", "height", "loading"],
+    input: ["type", "checked", "disabled"],
+    ins: ["cite", "datetime"],
+    li: ["value"],
+    ol: ["start", "type", "reversed"],
+    q: ["cite"],
+    td: ["colspan", "rowspan", "align"],
+    th: ["colspan", "rowspan", "align", "scope"],
+    time: ["datetime"],
+  },
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  droppedContentTags: [
+    "script",
+    "style",
+    "iframe",
+    "object",
+    "embed",
+    "template",
+    "noscript",
+    "textarea",
+    "title",
+    "xmp",
+    "svg",
+    "math",
+  ],
+};
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "cite",
+  "action",
+  "formaction",
+  "poster",
+  "xlink:href",
+]);
+
+/**
+ * Resolve a sanitize option against the defaults
+ * Returns null when sanitizing is disabled
+ */
+export function resolveSanitizerOptions(
+  option: MarkOverSanitizeOption = true
+): SanitizerOptions | null {
+  if (option === false) return null;
+  if (option === true) return defaultSanitizerOptions;
+  return { ...defaultSanitizerOptions, ...option };
+}
+
+/**
+ * Sanitize an HTML fragment
+ * `onRemove` receives a short description of everything that was removed
+ */
+export function sanitizeHtml(
+  html: string,
+  options: SanitizerOptions = defaultSanitizerOptions,
+  onRemove?: (description: string) => void
+): string {
+  const allowedTags = new Set(options.allowedTags);
+  const droppedContentTags = new Set(options.droppedContentTags);
+  const tagRegex =
+    /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+
+  let result = "";
+  let i = 0;
+
+  while (i < html.length) {
+    const next = html.indexOf("<", i);
+    if (next === -1) {
+      result += escapeText(html.substring(i));
+      break;
+    }
+    result += escapeText(html.substring(i, next));
+    i = next;
+
+    // Comments, doctypes and processing instructions are never kept
+    if (html.startsWith("<!--", i)) {
+      const end = html.indexOf("-->", i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[i + 1] === "!" || html[i + 1] === "?") {
+      const end = html.indexOf(">", i);
+      i = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    tagRegex.lastIndex = i;
+    const match = tagRegex.exec(html);
+    if (!match) {
+      result += "&lt;";
+      i++;
+      continue;
+    }
+
+    const [fullMatch, closing, rawName, rawAttributes] = match;
+    const name = rawName.toLowerCase();
+    i += fullMatch.length;
+
+    if (!closing && droppedContentTags.has(name)) {
+      onRemove?.(`<${name}>`);
+      const closeMatch = new RegExp(`</${name}\\s*>`, "i").exec(
+        html.substring(i)
+      );
+      i = closeMatch
+        ? i + closeMatch.index + closeMatch[0].length
+        : html.length;
+      continue;
+    }
+
+    if (!allowedTags.has(name)) {
+      if (!closing) onRemove?.(`<${name}>`);
+      continue;
+    }
+
+    if (closing) {
+      if (!VOID_TAGS.has(name)) result += `</${name}>`;
+      continue;
+    }
+
+    result += `<${name}${sanitizeAttributes(
+      name,
+      rawAttributes,
+      options,
+      onRemove
+    )}>`;
+  }
+
+  return result;
+}
+
+/**
+ * Escape a value for use inside a double-quoted attribute
+ */
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape text content
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Check an inline style for constructs that can run script or load
+ * external stylesheets
+ */
+export function isSafeStyle(style: string): boolean {
+  return !/expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import/i.test(
+    style
+  );
+}
+
+function sanitizeAttributes(
+  tag: string,
+  source: string,
+  options: SanitizerOptions,
+  onRemove?: (description: string) => void
+): string {
+  const allowed = [
+    ...(options.allowedAttributes["*"] || []),
+    ...(options.allowedAttributes[tag] || []),
+  ];
+  const attributeRegex =
+    /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  const seen = new Set<string>();
+  let result = "";
+  let match;
+
+  while ((match = attributeRegex.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    const hasValue =
+      match[2] !== undefined ||
+      match[3] !== undefined ||
+      match[4] !== undefined;
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    if (
+      !isAttributeAllowed(name, allowed) ||
+      !isValueSafe(name, value, tag, options)
+    ) {
+      onRemove?.(`${name} attribute on <${tag}>`);
+      continue;
+    }
+
+    result += hasValue ? ` ${name}="${escapeAttribute(value)}"` : ` ${name}`;
+  }
+
+  return result;
+}
+
+function isAttributeAllowed(name: string, allowed: string[]): boolean {
+  // Event handlers are never allowed, whatever the configuration says
+  if (name.startsWith("on")) return false;
+
+  return allowed.some((pattern) =>
+    pattern.endsWith("*")
+      ? name.startsWith(pattern.slice(0, -1))
+      : name === pattern
+  );
+}
+
+function isValueSafe(
+  name: string,
+  value: string,
+  tag: string,
+  options: SanitizerOptions
+): boolean {
+  if (name === "style") return isSafeStyle(value);
+
+  if (!URL_ATTRIBUTES.has(name)) return true;
+
+  // Browsers ignore control characters and whitespace inside schemes
+  const normalized = value.replace(/[\u0000- ]/g, "").toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(normalized);
+  if (!scheme) return true;
+
+  // Inline images (e.g. from exports that embed them) are fine in <img src>
+  if (scheme[1] === "data") {
+    return (
+      tag === "img" &&
+      name === "src" &&
+      /^data:image\/(png|jpe?g|gif|webp|avif|bmp)[;,]/.test(normalized)
+    );
+  }
+
+  return options.allowedSchemes.includes(scheme[1]);
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|colon|tab|newline);?/gi,
+    (entity, code: string) => {
+      const lower = code.toLowerCase();
+      if (lower.startsWith("#x")) {
+        return safeFromCodePoint(parseInt(lower.slice(2), 16), entity);
+      }
+      if (lower.startsWith("#")) {
+        return safeFromCodePoint(parseInt(lower.slice(1), 10), entity);
+      }
+      return NAMED_ENTITIES[lower] ?? entity;
+    }
+  );
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+};
+
+function safeFromCodePoint(code: number, fallback: string): string {
+  try {
+    return String.fromCodePoint(code);
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { MarkOverParser } from "./markover-parser";
+import {
+  formatPageNumber,
+  numberPages,
+  parseNewPage,
+  summarizePageNumbers,
+} from "./markover-sections";
+
+const parser = new MarkOverParser();
+
+describe("formatPageNumber", () => {
+  it.each([
+    [4, "lower-roman", "iv"],
+    [1999, "upper-roman", "MCMXCIX"],
+    [4000, "lower-roman", "4000"],
+    [1, "lower-alpha", "a"],
+    [27, "upper-alpha", "AA"],
+    [0, "lower-roman", "0"],
+    [12, "arabic", "12"],
+  ] as const)("formats %i as %s %j", (value, numbering, label) => {
+    expect(formatPageNumber(value, numbering)).toBe(label);
+  });
+});
+
+describe("parseNewPage", () => {
+  it.each([
+    [undefined, false],
+    ["", true],
+    ["true", true],
+    ["Yes", true],
+    ["1", true],
+    ["false", false],
+    ["no", false],
+    ["0", false],
+    ["maybe", null],
+  ])("reads %j as %j", (value, expected) => {
+    expect(parseNewPage(value)).toBe(expected);
+  });
+});
+
+describe("sections", () => {
+  const source = [
+    "---",
+    "numbering: lower-roman",
+    "---",
+    "# Abstract",
+    "",
+    ":::section {numbering=arabic start=1 new-page}",
+    "",
+    "# Introduction",
+  ].join("\n");
+
+  it("are resolved from the front matter and directives", () => {
+    const { sections, html } = parser.parse(source);
+    expect(sections.map(({ numbering, start }) => [numbering, start])).toEqual([
+      ["lower-roman", undefined],
+      ["arabic", 1],
+    ]);
+    expect(html).toContain('style="break-before: page"');
+  });
+
+  it("number the pages they start on", () => {
+    const { sections } = parser.parse(source);
+    const marker = `<div data-section="${sections[1].id}"></div>`;
+    const numbers = numberPages(["a", "b", `${marker}c`, "d"], sections);
+    expect(numbers.map((number) => number.label)).toEqual([
+      "i",
+      "ii",
+      "1",
+      "2",
+    ]);
+    expect(numbers.map((number) => number.firstInSection)).toEqual([
+      true,
+      false,
+      true,
+      false,
+    ]);
+    expect(summarizePageNumbers(numbers)).toBe("i–ii, 1–2");
+  });
+
+  it("don't start a new page with new-page=false", () => {
+    const { html, diagnostics } = parser.parse(
+      "a\n\n:::section {new-page=false}\n\nb"
+    );
+    expect(html).not.toContain("break-before");
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("report new-page values they don't understand", () => {
+    const { html, diagnostics } = parser.parse(
+      "a\n\n:::section {new-page=maybe}\n\nb"
+    );
+    expect(html).not.toContain("break-before");
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "invalid-property",
+    ]);
+  });
+
+  it("report unknown properties and bad values", () => {
+    const { diagnostics } = parser.parse(
+      "a\n\n:::section {numbering=greek start=x colour=red}\n\nb"
+    );
+    expect(diagnostics).toHaveLength(3);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Document sections and page numbering
+ *
+ * The front matter opens the first section and every `:::section` directive
+ * another. A section can restart the page counter, switch the numbering
+ * style and change the running header and footer templates. The parser
+ * resolves sections; pages are numbered once they have been paginated, by
+ * finding the section markers each page contains.
+ */
+
+import { DEFAULT_PAGE_TEMPLATES, type PageTemplates } from "./markover-running";
+
+export type PageNumbering =
+  "arabic" | "lower-roman" | "upper-roman" | "lower-alpha" | "upper-alpha";
+
+export const PAGE_NUMBERINGS: PageNumbering[] = [
+  "arabic",
+  "lower-roman",
+  "upper-roman",
+  "lower-alpha",
+  "upper-alpha",
+];
+
+export interface DocumentSection {
+  /**
+   * Source offset of the `:::section` directive, matching the
+   * `data-section` attribute of its marker; -1 for the front matter
+   */
+  id: number;
+  numbering: PageNumbering;
+  /** Number of the section's first page; unset to continue counting */
+  start?: number;
+  templates: PageTemplates;
+}
+
+export const DEFAULT_DOCUMENT_SECTION: DocumentSection = {
+  id: -1,
+  numbering: "arabic",
+  templates: DEFAULT_PAGE_TEMPLATES,
+};
+
+/**
+ * Read the `new-page` property of a `:::section` directive
+ * A bare `new-page`, `true`, `yes` and `1` start the section on a new page;
+ * `false`, `no`, `0` and a missing property don't. Null for anything else
+ */
+export function parseNewPage(value: string | undefined): boolean | null {
+  if (value === undefined) return false;
+  const normalized = value.trim().toLowerCase();
+  if (["", "true", "yes", "1"].includes(normalized)) return true;
+  if (["false", "no", "0"].includes(normalized)) return false;
+  return null;
+}
+
+/**
+ * Number and section of one page
+ */
+export interface PageNumber {
+  /** Page number formatted in the section's numbering style */
+  label: string;
+  value: number;
+  section: DocumentSection;
+  /** Whether the section starts on this page */
+  firstInSection: boolean;
+}
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, "m"],
+  [900, "cm"],
+  [500, "d"],
+  [400, "cd"],
+  [100, "c"],
+  [90, "xc"],
+  [50, "l"],
+  [40, "xl"],
+  [10, "x"],
+  [9, "ix"],
+  [5, "v"],
+  [4, "iv"],
+  [1, "i"],
+];
+
+/**
+ * Format a page number
+ * Roman numerals go up to 3999 and alphabetic numbers continue with
+ * `aa`, `ab`…; numbers outside either range are written in arabic
+ */
+export function formatPageNumber(
+  value: number,
+  numbering: PageNumbering
+): string {
+  if (numbering === "arabic" || value < 1) return String(value);
+
+  let label = "";
+  if (numbering.endsWith("roman")) {
+    if (value > 3999) return String(value);
+    let rest = value;
+    for (const [amount, numeral] of ROMAN_NUMERALS) {
+      for (; rest >= amount; rest -= amount) label += numeral;
+    }
+  } else {
+    for (let rest = value; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+      label = String.fromCharCode(97 + ((rest - 1) % 26)) + label;
+    }
+  }
+  return numbering.startsWith("upper") ? label.toUpperCase() : label;
+}
+
+/**
+ * Number paginated pages
+ * A page belongs to the last section whose marker is on it or on an earlier
+ * page; without markers every page belongs to `sections[0]`
+ */
+export function numberPages(
+  pages: string[],
+  sections: DocumentSection[]
+): PageNumber[] {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  let section = sections[0];
+  let value = (section.start ?? 1) - 1;
+
+  return pages.map((pageHtml, index) => {
+    let firstInSection = index === 0;
+    for (const match of pageHtml.matchAll(/<div data-section="(\d+)"/g)) {
+      const next = byId.get(Number(match[1]));
+      if (!next) continue;
+      section = next;
+      firstInSection = true;
+      if (next.start !== undefined) value = next.start - 1;
+    }
+    value++;
+    return {
+      label: formatPageNumber(value, section.numbering),
+      value,
+      section,
+      firstInSection,
+    };
+  });
+}
+
+/**
+ * Page ranges for display, one per run of consecutive numbers in the same
+ * style, e.g. "i–iv, 1–12"
+ */
+export function summarizePageNumbers(numbers: PageNumber[]): string {
+  const ranges: [PageNumber, PageNumber][] = [];
+  for (const number of numbers) {
+    const range = ranges[ranges.length - 1];
+    if (
+      range &&
+      number.section.numbering === range[1].section.numbering &&
+      number.value === range[1].value + 1
+    ) {
+      range[1] = number;
+    } else {
+      ranges.push([number, number]);
+    }
+  }
+  return ranges
+    .map(([first, last]) =>
+      first === last ? first.label : `${first.label}–${last.label}`
+    )
+    .join(", ");
+}
@@ -0,0 +1,139 @@
+/**
+ * MarkOver syntax shared by the block scanner and the inline Markdown
+ * extensions
+ */
+
+import type { TokenizerAndRendererExtension, Tokens } from "marked";
+import { escapeAttribute } from "./markover-sanitizer";
+
+/**
+ * Match an Angle Block opening tag at the given index
+ * The class list is quoted with ' or " and must end on the same line.
+ * Backslash escapes the next character, and quotes inside [...] arbitrary
+ * values don't end the list:
+ *   <>'content-['→'] font-[\'Inter\']'   <>"bg-[url('/a.png')]"
+ */
+export function matchAngleOpener(
+  text: string,
+  index: number
+): { classes: string[]; end: number } | null {
+  const quote = text[index + 2];
+  if (!text.startsWith("<>", index) || (quote !== "'" && quote !== '"')) {
+    return null;
+  }
+
+  const classes: string[] = [];
+  let current = "";
+  let bracketDepth = 0;
+  // Quote character of a string inside an arbitrary value, if any
+  let innerQuote: string | null = null;
+
+  for (let i = index + 3; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") return null;
+
+    if (char === "\\" && i + 1 < text.length && text[i + 1] !== "\n") {
+      current += text[++i];
+      continue;
+    }
+
+    if (innerQuote) {
+      if (char === innerQuote) innerQuote = null;
+    } else if (bracketDepth > 0) {
+      if (char === "'" || char === '"') innerQuote = char;
+      else if (char === "[") bracketDepth++;
+      else if (char === "]") bracketDepth--;
+    } else if (char === quote) {
+      if (current) classes.push(current);
+      return { classes, end: i + 1 };
+    } else if (char === "[") {
+      bracketDepth++;
+    } else if (/\s/.test(char)) {
+      if (current) classes.push(current);
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  return null;
+}
+
+/**
+ * Match bracketed span text starting at the "[" at the given index
+ * Brackets may nest, backslash escapes the next character and the text
+ * may not cross a blank line. Returns the index after the closing "]",
+ * or -1 when there is none
+ */
+export function matchSpanText(text: string, index: number): number {
+  if (text[index] !== "[") return -1;
+
+  let depth = 0;
+  for (let i = index; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "\n" && text[i + 1] === "\n") {
+      return -1;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+
+  return -1;
+}
+
+interface AngleSpanToken extends Tokens.Generic {
+  type: "angleSpan";
+  raw: string;
+  classes: string[];
+  tokens: Tokens.Generic[];
+}
+
+/**
+ * Inline Angle span: <>'text-red-600 font-bold'[critical]
+ * Renders as a <span> inside the surrounding paragraph, list item or cell
+ */
+export const angleSpanExtension: TokenizerAndRendererExtension = {
+  name: "angleSpan",
+  level: "inline",
+  start(src) {
+    // Skip openers escaped with an odd number of backslashes (\<>'...)
+    const openerRegex = /(\\*)<>['"]/g;
+    let match;
+    while ((match = openerRegex.exec(src)) !== null) {
+      if (match[1].length % 2 === 0) return match.index + match[1].length;
+    }
+    return undefined;
+  },
+  tokenizer(src) {
+    const opener = matchAngleOpener(src, 0);
+    if (!opener) return undefined;
+
+    const end = matchSpanText(src, opener.end);
+    if (end === -1) return undefined;
+
+    const token: AngleSpanToken = {
+      type: "angleSpan",
+      raw: src.substring(0, end),
+      classes: opener.classes,
+      tokens: [],
+    };
+    this.lexer.inlineTokens(
+      src.substring(opener.end + 1, end - 1),
+      token.tokens
+    );
+    return token;
+  },
+  renderer(token) {
+    const { classes, tokens } = token as AngleSpanToken;
+    const classAttribute = classes.length
+      ? ` class="${escapeAttribute(classes.join(" "))}"`
+      : "";
+    return `<span${classAttribute}>${this.parser.parseInline(tokens)}</span>`;
+  },
+};
@@ -0,0 +1,84 @@
+import { compile } from "tailwindcss";
+
+/**
+ * Runtime TailwindCSS compiler
+ *
+ * Tailwind only emits classes it finds in the app's source files, so classes
+ * typed into Angle Blocks would otherwise render unstyled. This compiles CSS
+ * for the classes a document actually uses, entirely in the browser.
+ *
+ * The theme stylesheet (Tailwind's `theme.css` plus the app's own `@theme`
+ * tokens) is read on the server by `loadTailwindTheme` and passed in.
+ */
+
+type TailwindCompiler = Awaited<ReturnType<typeof compile>>;
+
+const compilerCache = new Map<string, Promise<TailwindCompiler>>();
+
+/**
+ * Create a compiler for the given theme stylesheet
+ * Compilers are incremental: each build includes every class seen so far
+ */
+export function createTailwindCompiler(
+  theme: string
+): Promise<TailwindCompiler> {
+  return compile(
+    [
+      "@layer theme, base, components, utilities;",
+      theme,
+      "@layer utilities {",
+      "  @tailwind utilities;",
+      "}",
+    ].join("\n")
+  );
+}
+
+/**
+ * Shared compiler for a theme, created on first use
+ */
+export function getTailwindCompiler(theme: string): Promise<TailwindCompiler> {
+  let compiler = compilerCache.get(theme);
+  if (!compiler) {
+    compiler = createTailwindCompiler(theme);
+    compilerCache.set(theme, compiler);
+  }
+  return compiler;
+}
+
+/**
+ * Collect the class names used in rendered HTML
+ */
+export function extractClassCandidates(html: string): string[] {
+  const candidates = new Set<string>();
+  const classAttributeRegex = /\sclass="([^"]*)"/g;
+  let match;
+
+  while ((match = classAttributeRegex.exec(html)) !== null) {
+    for (const candidate of match[1].split(/\s+/)) {
+      if (candidate) candidates.add(decodeAttributeValue(candidate));
+    }
+  }
+
+  return Array.from(candidates);
+}
+
+/**
+ * Compile CSS for exactly the classes used in the given HTML
+ * Uses a fresh compiler so the output contains nothing else
+ */
+export async function compileTailwindCss(
+  theme: string,
+  html: string
+): Promise<string> {
+  const compiler = await createTailwindCompiler(theme);
+  return compiler.build(extractClassCandidates(html));
+}
+
+function decodeAttributeValue(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
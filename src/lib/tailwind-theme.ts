@@ -0,0 +1,50 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Load the theme stylesheet for the runtime TailwindCSS compiler
+ * Server only: combines Tailwind's default theme with the `@theme` and
+ * `@custom-variant` rules from the app's globals.css so document classes
+ * resolve against the same tokens as the app itself
+ */
+export async function loadTailwindTheme(): Promise<string> {
+  const root = process.cwd();
+  const [defaultTheme, globals] = await Promise.all([
+    readFile(path.join(root, "node_modules/tailwindcss/theme.css"), "utf8"),
+    readFile(path.join(root, "src/app/globals.css"), "utf8"),
+  ]);
+
+  const appTheme = [
+    ...(globals.match(/@custom-variant[^;]*;/g) || []),
+    ...(globals.match(/@theme[^{]*\{[^}]*\}/g) || []),
+  ];
+
+  return [defaultTheme, ...appTheme].join("\n");
+}
+
+/**
+ * Load the stylesheet that exported documents need besides their own
+ * TailwindCSS classes: Tailwind's preflight, the light theme's CSS variables
+ * and the `.markover-*` rules from globals.css
+ * Server only. Layers keep the same order as in the app, so utilities
+ * still win over the base styles
+ */
+export async function loadContentStyles(): Promise<string> {
+  const root = process.cwd();
+  const [preflight, globals] = await Promise.all([
+    readFile(path.join(root, "node_modules/tailwindcss/preflight.css"), "utf8"),
+    readFile(path.join(root, "src/app/globals.css"), "utf8"),
+  ]);
+
+  const variables = globals.match(/:root\s*\{[^}]*\}/g) || [];
+  const contentRules = (
+    globals.match(/[^{}]*\.markover-[^{}]*\{[^}]*\}/g) || []
+  ).map((rule) => rule.trim());
+
+  return [
+    "@layer theme, base, components, utilities;",
+    ...variables,
+    `@layer base {\n${preflight}\n}`,
+    `@layer components {\n${contentRules.join("\n\n")}\n}`,
+  ].join("\n");
+}